@@ -0,0 +1,304 @@
+/**
+ * Apps Diff
+ *
+ * Compares two versions of apps.json and describes every change:
+ *
+ * - added: new app
+ * - updated: newer version of an app
+ * - downgraded: older version of an app (rollback upstream)
+ * - republished: same version, but a platform's file changed (signature or URL)
+ * - platform-added: same version, new platform
+ * - platform-removed: a platform is no longer offered
+ * - app-removed: the app is no longer listed
+ *
+ * The apps that need downloading (update-apps.json) are derived from the
+ * same comparison, and every run's changes are saved as a change report.
+ * Versions are compared as QNAP build numbers (see version.ts), so a version
+ * that is only written differently ("1.0" vs "1.0.0") counts as the same.
+ */
+
+import { getEnvOrDefault } from './env';
+import { getFilenameFromUrl } from './utils/file';
+import { compareVersions } from './version';
+import type { AppItem, AppsConfig, DowngradePolicy, Platform } from './types';
+
+/**
+ * Kind of change between two feeds
+ */
+export type AppChangeType =
+  | 'added'
+  | 'updated'
+  | 'downgraded'
+  | 'republished'
+  | 'platform-added'
+  | 'platform-removed'
+  | 'app-removed';
+
+export const APP_CHANGE_TYPES: AppChangeType[] = [
+  'added',
+  'updated',
+  'downgraded',
+  'republished',
+  'platform-added',
+  'platform-removed',
+  'app-removed',
+];
+
+/**
+ * Package file of a platform
+ */
+export interface PlatformFile {
+  platformID: string;
+  filename: string;
+  location: string;
+  signature: string;
+  previousSignature?: string;   // Set for republished files
+}
+
+/**
+ * One change between two feeds
+ * App-level changes list all platforms involved (of the new version, or of
+ * the old one for app-removed); platform-level changes list one platform
+ */
+export interface AppChange {
+  type: AppChangeType;
+  app: string;              // internalName, or name if the feed has none
+  name: string;
+  version: string;
+  previousVersion?: string;   // Set for version changes, and when the version is only written differently
+  platforms: PlatformFile[];
+  skipped?: boolean;          // Downgrade not mirrored (DOWNGRADE_POLICY=skip)
+}
+
+/**
+ * Result of comparing two feeds
+ */
+export interface AppsDiff {
+  changes: AppChange[];
+  updates: AppsConfig;      // Apps with something to download (update-apps.json)
+}
+
+/**
+ * Change report of one fetch (config/change-report.json)
+ */
+export interface ChangeReport {
+  generatedAt: string;
+  cachechk: string;
+  previousCachechk?: string;
+  summary: Record<AppChangeType, number>;
+  changes: AppChange[];
+}
+
+/**
+ * Options for comparing feeds
+ */
+export interface FindDifferencesOptions {
+  downgradePolicy?: DowngradePolicy;   // Default: mirror
+}
+
+/**
+ * Get downgrade policy from DOWNGRADE_POLICY environment variable (default: mirror)
+ */
+export function getDowngradePolicy(): DowngradePolicy {
+  const value = getEnvOrDefault('DOWNGRADE_POLICY', 'mirror').trim().toLowerCase();
+  if (value === 'mirror' || value === 'skip') {
+    return value;
+  }
+  throw new Error(`Invalid DOWNGRADE_POLICY: ${value} (expected mirror or skip)`);
+}
+
+/**
+ * Key identifying an app across feeds
+ */
+function getAppKey(app: AppItem): string {
+  return app.internalName || app.name;
+}
+
+/**
+ * Describe a platform's file
+ */
+function toPlatformFile(platform: Platform, previous?: Platform): PlatformFile {
+  return {
+    platformID: platform.platformID,
+    filename: getFilenameFromUrl(platform.location),
+    location: platform.location,
+    signature: platform.signature,
+    previousSignature: previous && previous.signature !== platform.signature ? previous.signature : undefined,
+  };
+}
+
+/**
+ * Compare two apps configs and describe the differences
+ *
+ * Apps that are new, have a new version, or gained or republished a platform
+ * go to `updates`; removals only appear in `changes`. Downgrades go to
+ * `updates` unless the downgrade policy is skip.
+ */
+export function findDifferences(
+  oldConfig: AppsConfig | null,
+  newConfig: AppsConfig,
+  options: FindDifferencesOptions = {}
+): AppsDiff {
+  const { downgradePolicy = 'mirror' } = options;
+  const newApps = newConfig.plugins.item;
+
+  // If no old config, all apps are new
+  if (!oldConfig || !oldConfig.plugins || !oldConfig.plugins.item) {
+    return {
+      changes: newApps.map(app => ({
+        type: 'added',
+        app: getAppKey(app),
+        name: app.name,
+        version: app.version,
+        platforms: app.platform.map(p => toPlatformFile(p)),
+      })),
+      updates: newConfig,
+    };
+  }
+
+  const changes: AppChange[] = [];
+  const updates: AppItem[] = [];
+
+  // Create a map of old apps for quick lookup
+  const oldAppsMap = new Map<string, AppItem>();
+  for (const app of oldConfig.plugins.item) {
+    oldAppsMap.set(getAppKey(app), app);
+  }
+
+  for (const newApp of newApps) {
+    const key = getAppKey(newApp);
+    const oldApp = oldAppsMap.get(key);
+    oldAppsMap.delete(key);
+    const base = { app: key, name: newApp.name, version: newApp.version };
+
+    if (!oldApp) {
+      changes.push({ ...base, type: 'added', platforms: newApp.platform.map(p => toPlatformFile(p)) });
+      updates.push(newApp);
+      continue;
+    }
+
+    const oldPlatforms = new Map(oldApp.platform.map(p => [p.platformID, p]));
+    const newPlatformIds = new Set(newApp.platform.map(p => p.platformID));
+
+    const order = compareVersions(newApp.version, oldApp.version);
+
+    if (order > 0) {
+      changes.push({
+        ...base,
+        type: 'updated',
+        previousVersion: oldApp.version,
+        platforms: newApp.platform.map(p => toPlatformFile(p)),
+      });
+      updates.push(newApp);
+    } else if (order < 0) {
+      const skipped = downgradePolicy === 'skip';
+      changes.push({
+        ...base,
+        type: 'downgraded',
+        previousVersion: oldApp.version,
+        platforms: newApp.platform.map(p => toPlatformFile(p, oldPlatforms.get(p.platformID))),
+        ...(skipped ? { skipped } : {}),
+      });
+      if (!skipped) {
+        updates.push(newApp);
+      }
+    } else {
+      // Same version: look for new platforms and re-published packages (signature or URL change)
+      const same = oldApp.version !== newApp.version ? { ...base, previousVersion: oldApp.version } : base;
+      let hasChanges = false;
+      for (const platform of newApp.platform) {
+        const oldPlatform = oldPlatforms.get(platform.platformID);
+        if (!oldPlatform) {
+          changes.push({ ...same, type: 'platform-added', platforms: [toPlatformFile(platform)] });
+          hasChanges = true;
+        } else if (oldPlatform.signature !== platform.signature || oldPlatform.location !== platform.location) {
+          changes.push({ ...same, type: 'republished', platforms: [toPlatformFile(platform, oldPlatform)] });
+          hasChanges = true;
+        }
+      }
+
+      if (hasChanges) {
+        updates.push(newApp);
+      }
+    }
+
+    // Platforms no longer offered, whatever happened to the version
+    for (const oldPlatform of oldApp.platform) {
+      if (!newPlatformIds.has(oldPlatform.platformID)) {
+        changes.push({
+          ...base,
+          type: 'platform-removed',
+          version: oldApp.version,
+          platforms: [toPlatformFile(oldPlatform)],
+        });
+      }
+    }
+  }
+
+  // Apps left in the map are no longer listed
+  for (const [key, oldApp] of oldAppsMap) {
+    changes.push({
+      type: 'app-removed',
+      app: key,
+      name: oldApp.name,
+      version: oldApp.version,
+      platforms: oldApp.platform.map(p => toPlatformFile(p)),
+    });
+  }
+
+  return {
+    changes,
+    updates: {
+      plugins: {
+        cachechk: newConfig.plugins.cachechk,
+        item: updates,
+      },
+    },
+  };
+}
+
+/**
+ * Build the change report of a fetch
+ */
+export function buildChangeReport(
+  diff: AppsDiff,
+  oldConfig: AppsConfig | null,
+  newConfig: AppsConfig
+): ChangeReport {
+  const summary = Object.fromEntries(APP_CHANGE_TYPES.map(type => [type, 0])) as Record<AppChangeType, number>;
+  for (const change of diff.changes) {
+    summary[change.type]++;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    cachechk: newConfig.plugins.cachechk,
+    previousCachechk: oldConfig?.plugins?.cachechk,
+    summary,
+    changes: diff.changes,
+  };
+}
+
+/**
+ * Describe a change in one line, e.g. "Apache83: 1.0 → 1.1 (updated)"
+ */
+export function describeChange(change: AppChange): string {
+  const platforms = change.platforms.map(p => p.platformID).join(', ');
+
+  switch (change.type) {
+    case 'added':
+      return `${change.name} v${change.version} (new)`;
+    case 'updated':
+      return `${change.name}: ${change.previousVersion} → ${change.version} (updated)`;
+    case 'downgraded':
+      return `${change.name}: ${change.previousVersion} → ${change.version} (downgraded${change.skipped ? ', not mirrored' : ''})`;
+    case 'republished':
+      return `${change.name} v${change.version}: ${platforms} re-published`;
+    case 'platform-added':
+      return `${change.name} v${change.version}: ${platforms} added`;
+    case 'platform-removed':
+      return `${change.name} v${change.version}: ${platforms} removed`;
+    case 'app-removed':
+      return `${change.name} v${change.version} (removed from the feed)`;
+  }
+}
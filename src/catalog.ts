@@ -0,0 +1,309 @@
+/**
+ * Package Catalog
+ *
+ * Builds the catalog of mirrored packages from metadata-uploaded.json and
+ * renders it as Markdown (PACKAGES.md) and JSON (catalog.json).
+ *
+ * metadata-uploaded.json only holds the packages of the last upload run, so
+ * the catalog is merged into the previous catalog.json: an entry is replaced
+ * when a newer upload of the same product and architecture arrives, and kept
+ * otherwise. Packages removed from the feed (withdrawn.json) stay in the
+ * catalog, marked with their withdrawal date.
+ *
+ * generateCatalog() writes both files and, with CATALOG_UPLOAD=true, uploads
+ * them; it runs at the end of upload.ts and from bun run catalog.
+ */
+
+import { join } from 'path';
+import { getEnvOrDefault } from './env';
+import { writeJsonState } from './ledger';
+import { getWithdrawnDates, loadWithdrawnCatalog } from './withdrawn';
+import { getTimeZone } from './remote-path';
+import { createStorageBackends, type StorageBackend } from './storage';
+import { publishFiles } from './storage/publish';
+import { ensureDir, writeFileAtomic } from './utils/file';
+import { formatBytes, formatDateTime } from './utils/format';
+import { groupPackagesByProduct } from './utils/packages';
+import type { PackageMetadata, UploadedPackage } from './types';
+
+/**
+ * One downloadable file in the catalog
+ */
+export interface CatalogEntry extends PackageMetadata {
+  uploadDate?: string;
+  downloadUrl: string;                // Primary link (first backend in STORAGE_BACKENDS order)
+  shortUrl?: string;
+  folderUrl?: string;
+  mirrors: Record<string, string>;    // Permanent download URL per backend
+  withdrawnAt?: string;               // Set when QNAP no longer lists the package (TRACK_WITHDRAWN)
+}
+
+/**
+ * Packages of one product
+ */
+export interface CatalogProduct {
+  name: string;
+  version: string;      // Version of the most recently published package
+  updatedAt: string;    // Latest publish date of the product's packages
+  packages: CatalogEntry[];
+}
+
+/**
+ * Catalog file structure (catalog.json)
+ */
+export interface Catalog {
+  generatedAt: string;
+  totalProducts: number;
+  totalFiles: number;
+  products: CatalogProduct[];
+}
+
+/**
+ * Convert an uploaded package to a catalog entry
+ * @returns null if the package has no download link (upload failed)
+ */
+export function toCatalogEntry(pkg: UploadedPackage): CatalogEntry | null {
+  // Packages uploaded before primaryUrl existed kept the primary link in ctfileUrl
+  let downloadUrl = pkg.primaryUrl || pkg.ctfileUrl;
+  let shortUrl = pkg.primaryUrl ? pkg.primaryShortUrl : pkg.ctfileShortUrl;
+  let folderUrl = pkg.primaryUrl ? pkg.primaryFolderUrl : pkg.ctfileFolderUrl;
+  if (!downloadUrl) {
+    return null;
+  }
+
+  const mirrors: Record<string, string> = {};
+  for (const [name, replica] of Object.entries(pkg.replicas || {})) {
+    // Time-limited URLs (S3 presigned) would be dead links in a published catalog
+    if (replica.status === 'uploaded' && replica.url && !replica.expiresAt) {
+      mirrors[name] = replica.url;
+    }
+  }
+  // Records written before replicas were tracked
+  if (!pkg.replicas) {
+    if (pkg.webdavUrl) mirrors.webdav = pkg.webdavUrl;
+    if (pkg.localMirrorUrl) mirrors.local = pkg.localMirrorUrl;
+    if (pkg.s3Url && !pkg.s3UrlExpiresAt) mirrors.s3 = pkg.s3Url;
+  }
+
+  // Records written before expiring replicas were passed over may have a
+  // presigned primary link; link a permanent copy instead if there is one
+  const expiring = Object.values(pkg.replicas || {}).some(r => r.url === downloadUrl && r.expiresAt)
+    || (!!pkg.s3UrlExpiresAt && pkg.s3Url === downloadUrl);
+  const permanent = Object.entries(mirrors)[0];
+  if (expiring && permanent) {
+    const replica = pkg.replicas?.[permanent[0]];
+    downloadUrl = permanent[1];
+    shortUrl = replica?.shortUrl;
+    folderUrl = replica?.folderUrl;
+  }
+
+  return {
+    productName: pkg.productName,
+    version: pkg.version,
+    architecture: pkg.architecture,
+    filename: pkg.filename,
+    fileSize: pkg.fileSize,
+    downloadUrl,
+    publishedDate: pkg.publishedDate,
+    downloadDate: pkg.downloadDate,
+    signature: pkg.signature,
+    md5: pkg.md5,
+    sha256: pkg.sha256,
+    uploadDate: pkg.uploadDate,
+    shortUrl,
+    folderUrl,
+    mirrors,
+  };
+}
+
+/**
+ * Build the catalog from uploaded packages, merged into a previous catalog
+ *
+ * @param withdrawn - Withdrawal dates by filename; entries not in it are unmarked
+ */
+export function buildCatalog(
+  packages: UploadedPackage[],
+  previous?: Catalog,
+  withdrawn: Map<string, string> = new Map()
+): Catalog {
+  // product + architecture -> entry; entries from this run replace older ones
+  const entries = new Map<string, CatalogEntry>();
+  const key = (entry: PackageMetadata) => `${entry.productName}\u0000${entry.architecture}`;
+
+  for (const product of previous?.products || []) {
+    for (const entry of product.packages) {
+      entries.set(key(entry), entry);
+    }
+  }
+
+  for (const pkg of packages) {
+    const entry = toCatalogEntry(pkg);
+    if (entry) {
+      entries.set(key(entry), entry);
+    }
+  }
+
+  for (const entry of entries.values()) {
+    const withdrawnAt = withdrawn.get(entry.filename);
+    if (withdrawnAt) {
+      entry.withdrawnAt = withdrawnAt;
+    } else {
+      delete entry.withdrawnAt;
+    }
+  }
+
+  const products: CatalogProduct[] = [];
+
+  for (const [name, productEntries] of groupPackagesByProduct([...entries.values()])) {
+    productEntries.sort((a, b) => a.architecture.localeCompare(b.architecture));
+    const latest = productEntries.reduce((a, b) => (b.publishedDate > a.publishedDate ? b : a));
+
+    products.push({
+      name,
+      version: latest.version,
+      updatedAt: latest.publishedDate,
+      packages: productEntries,
+    });
+  }
+
+  products.sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totalProducts: products.length,
+    totalFiles: entries.size,
+    products,
+  };
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Render the catalog as Markdown (PACKAGES.md)
+ *
+ * @param catalog - Catalog to render
+ * @param timeZone - Timezone for the displayed dates
+ */
+export function renderCatalogMarkdown(catalog: Catalog, timeZone: string = 'UTC'): string {
+  const lines: string[] = [
+    '# QNAP Software Packages - Download Links',
+    '',
+    `Generated on: ${formatDateTime(catalog.generatedAt, timeZone)} (${timeZone})`,
+    '',
+    `Total Products: ${catalog.totalProducts}`,
+    `Total Files: ${catalog.totalFiles}`,
+    '',
+  ];
+
+  for (const product of catalog.products) {
+    lines.push(
+      `## ${product.name}`,
+      '',
+      `**Version:** ${product.version}`,
+      `**Update Time:** ${formatDateTime(product.updatedAt, timeZone)}`,
+      '',
+      '### Available Architectures',
+      '',
+      '| Architecture | Filename | File Size | Download Link |',
+      '|--------------|----------|-----------|---------------|'
+    );
+
+    for (const entry of product.packages) {
+      const links = [`[🔗 Download](${entry.downloadUrl})`];
+      if (entry.shortUrl) {
+        links.push(`[Short URL](${entry.shortUrl})`);
+      }
+      for (const [name, url] of Object.entries(entry.mirrors)) {
+        if (url !== entry.downloadUrl) {
+          links.push(`[${name}](${url})`);
+        }
+      }
+
+      const filename = entry.withdrawnAt
+        ? `${escapeCell(entry.filename)} (⚠ withdrawn ${formatDateTime(entry.withdrawnAt, timeZone)})`
+        : escapeCell(entry.filename);
+      lines.push(
+        `| ${escapeCell(entry.architecture)} | ${filename} | ${formatBytes(entry.fileSize)} | ${links.join(' · ')} |`
+      );
+    }
+
+    lines.push('', '---', '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Whether the catalog is uploaded to the storage backends (CATALOG_UPLOAD, default: false)
+ */
+export function isCatalogUploadEnabled(): boolean {
+  return getEnvOrDefault('CATALOG_UPLOAD', 'false') === 'true';
+}
+
+/**
+ * Output directory of the catalog (CATALOG_DIR, default: config)
+ */
+export function getCatalogDir(): string {
+  return join(process.cwd(), getEnvOrDefault('CATALOG_DIR', 'config'));
+}
+
+/**
+ * Generate PACKAGES.md and catalog.json in CATALOG_DIR (default: config)
+ * and upload them to the root folder of every backend if CATALOG_UPLOAD is set
+ *
+ * @param packages - Packages of the last upload run
+ * @param backends - Backends to upload to (default: all configured backends)
+ * @returns The catalog, or null if there is nothing to list
+ */
+export async function generateCatalog(packages: UploadedPackage[], backends?: StorageBackend[]): Promise<Catalog | null> {
+  const outputDir = getCatalogDir();
+  const markdownPath = join(outputDir, 'PACKAGES.md');
+  const jsonPath = join(outputDir, 'catalog.json');
+
+  // Load the previous catalog to merge into
+  let previous: Catalog | undefined;
+  const previousFile = Bun.file(jsonPath);
+  if (await previousFile.exists()) {
+    try {
+      previous = await previousFile.json();
+      console.log(`📋 Previous catalog: ${previous!.totalFiles} files in ${previous!.totalProducts} products`);
+    } catch (error) {
+      console.warn(`  ⚠ Failed to load previous catalog: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const catalog = buildCatalog(packages, previous, getWithdrawnDates(await loadWithdrawnCatalog()));
+
+  if (catalog.totalFiles === 0) {
+    console.log('\n⚠ No uploaded packages, nothing to generate');
+    return null;
+  }
+
+  await ensureDir(outputDir);
+  await writeFileAtomic(markdownPath, renderCatalogMarkdown(catalog, getTimeZone()));
+  await writeJsonState(jsonPath, catalog, ledger => ledger.recordPublished(catalog));
+
+  console.log(`\n✓ Catalog: ${catalog.totalFiles} files in ${catalog.totalProducts} products`);
+  console.log(`  Markdown: ${markdownPath}`);
+  console.log(`  JSON: ${jsonPath}`);
+
+  if (isCatalogUploadEnabled()) {
+    console.log('\n📤 Uploading catalog to storage backends...');
+    const results = await publishFiles(backends || createStorageBackends(), [
+      { localPath: markdownPath, folderPath: '' },
+      { localPath: jsonPath, folderPath: '' },
+    ]);
+
+    const failures = results.reduce((sum, r) => sum + Object.keys(r.errors).length, 0);
+    if (failures > 0) {
+      console.log(`  ⚠ ${failures} upload(s) failed, the catalog will be uploaded again on the next run`);
+    }
+  }
+
+  return catalog;
+}
@@ -19,20 +19,8 @@ import { join } from 'path';
 import { loadEnv } from './env';
 import { parseQpkgFilename } from './ctfile-utils';
 import { getFilenameFromUrl } from './utils/file';
-import type { AppsConfig, AppItem, Platform } from './types/index';
-
-/**
- * Upload progress record structure
- */
-interface UploadProgress {
-  [filename: string]: {
-    signature: string;
-    ctfileUrl: string;
-    ctfileShortUrl?: string;
-    ctfileFolderUrl?: string;
-    uploadDate: string;
-  };
-}
+import { writeJsonState } from './ledger';
+import type { AppsConfig, AppItem, Platform, UploadProgress } from './types/index';
 
 /**
  * Main function
@@ -189,7 +177,7 @@ async function main() {
       },
     };
 
-    await Bun.write(updateFilePath, JSON.stringify(updatedData, null, 2));
+    await writeJsonState(updateFilePath, updatedData, ledger => ledger.saveSnapshot('update-apps.json', updatedData));
     console.log(`\n✓ 已更新: config/update-apps.json`);
     console.log(`  删除了 ${apps.length - updatedApps.length} 个完全上传的软件包`);
     console.log(`  删除了 ${totalExisting} 个已上传的平台`);
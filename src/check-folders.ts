@@ -4,6 +4,7 @@
  * Check existing folder structure in CTFile
  */
 
+import { CTFileClient } from './ctfile';
 import { loadEnv, getEnv } from './env';
 
 async function checkFolderStructure() {
@@ -11,50 +12,18 @@ async function checkFolderStructure() {
 
   const session = getEnv('CTFILE_SESSION');
   const rootFolderId = getEnv('CTFILE_FOLDER_ID');
-  const baseUrl = 'https://rest.ctfile.com/v1';
+  const client = new CTFileClient(session);
 
   console.log('📂 Checking CTFile folder structure...\n');
 
-  // Function to list folders
+  // Function to list folders (two levels: product / month)
   async function listFolders(folderId: string, indent: string = '') {
-    const normalizedId = folderId.startsWith('d') ? folderId : `d${folderId}`;
+    for await (const folder of client.iterateFolders(folderId, true)) {
+      console.log(`${indent}📁 ${folder.name} (${folder.key})`);
 
-    const response = await fetch(`${baseUrl}/public/folder/list`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        session: session,
-        folder_id: normalizedId,
-        page: 1,
-        page_size: 100,
-      }),
-    });
-
-    const result = await response.json();
-
-    if (result.code === 200) {
-      for (const folder of result.results || []) {
-        console.log(`${indent}📁 ${folder.name} (${folder.key})`);
-
-        // List subfolders
-        const subResponse = await fetch(`${baseUrl}/public/folder/list`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            session: session,
-            folder_id: folder.key,
-            page: 1,
-            page_size: 100,
-          }),
-        });
-
-        const subResult = await subResponse.json();
-
-        if (subResult.code === 200 && subResult.results) {
-          for (const subfolder of subResult.results) {
-            console.log(`${indent}  📁 ${subfolder.name} (${subfolder.key})`);
-          }
-        }
+      // List subfolders
+      for await (const subfolder of client.iterateFolders(folder.id, true)) {
+        console.log(`${indent}  📁 ${subfolder.name} (${subfolder.key})`);
       }
     }
   }
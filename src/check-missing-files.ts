@@ -9,6 +9,8 @@
  * 功能：
  * 1. 读取 config/apps.json（完整软件包列表）
  * 2. 对每个软件包的每个平台（架构），检查是否在 CTFile 中存在
+ *    （配置了 WebDAV 时，CTFile 中没有的文件再按目录列表检查 WebDAV，
+ *    fallback 模式下大文件只会上传到 WebDAV）
  * 3. 收集所有缺失的软件包
  * 4. 将缺失的软件包写入 config/update-apps.json
  *
@@ -20,11 +22,38 @@
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { CTFileClient } from './ctfile';
+import { CTFileFolderCache } from './ctfile-folder-cache';
 import { loadEnv, getEnv } from './env';
 import { checkFileExistsInCTFile, parseQpkgFilename } from './ctfile-utils';
+import { findRemoteFolders, getRemotePathTemplate, getTimeZone } from './remote-path';
+import { createStorageBackend, StorageInventory, type StorageEntry } from './storage';
 import { getFilenameFromUrl } from './utils/file';
+import { writeJsonState } from './ledger';
 import type { AppsConfig, AppItem, Platform } from './types/index';
 
+/**
+ * Find a package on a backend in any folder matching the remote path template
+ */
+async function findPackageInInventory(
+  inventory: StorageInventory,
+  productName: string,
+  version: string,
+  architecture: string
+): Promise<StorageEntry | undefined> {
+  const folderPaths = await findRemoteFolders(
+    { productName, version, architecture },
+    async folderPath => (await inventory.listFolder(folderPath)).filter(e => e.isFolder).map(e => e.name)
+  );
+
+  for (const folderPath of folderPaths) {
+    const entry = await inventory.findPackage(folderPath, version, architecture);
+    if (entry) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Main function
  */
@@ -41,8 +70,17 @@ async function main() {
 
   // Initialize CTFile client
   const ctfileClient = new CTFileClient(session);
+  const ctfileFolders = new CTFileFolderCache(ctfileClient, rootFolderId);
   console.log(`\n🔑 CTFile 配置:`);
   console.log(`  Root folder ID: ${rootFolderId}`);
+  console.log(`  远程路径模板: ${getRemotePathTemplate()} (时区: ${getTimeZone()})`);
+
+  // WebDAV holds the files CTFile rejected (fallback mode), so check it too when configured
+  const webdavBackend = createStorageBackend('webdav');
+  const webdav = webdavBackend ? new StorageInventory(webdavBackend) : null;
+  if (webdav) {
+    console.log(`  WebDAV: 已配置，CTFile 中不存在的文件会再检查 WebDAV`);
+  }
 
   // Get file paths
   const appsFilePath = join(process.cwd(), 'config', 'apps.json');
@@ -74,6 +112,7 @@ async function main() {
 
   let totalPlatforms = 0;
   let totalExists = 0;
+  let totalInWebDAV = 0;
   let totalMissing = 0;
 
   const missingApps: AppItem[] = [];
@@ -106,16 +145,23 @@ async function main() {
       // Check if file exists in CTFile
       try {
         const exists = await checkFileExistsInCTFile(
-          ctfileClient,
-          rootFolderId,
+          ctfileFolders,
           productName,
           fileVersion,
           architecture
         );
 
+        const webdavEntry = !exists && webdav
+          ? await findPackageInInventory(webdav, productName, fileVersion, architecture)
+          : undefined;
+
         if (exists) {
           console.log(`     ✅ 文件已存在于 CTFile`);
           totalExists++;
+        } else if (webdavEntry) {
+          console.log(`     ✅ 文件已存在于 WebDAV: ${webdavEntry.path}`);
+          totalExists++;
+          totalInWebDAV++;
         } else {
           console.log(`     ❌ 文件不存在于 CTFile，标记为需要下载`);
           missingPlatforms.push(platform);
@@ -149,8 +195,12 @@ async function main() {
   console.log(`  总计软件包: ${apps.length}`);
   console.log(`  总计平台: ${totalPlatforms}`);
   console.log(`  已存在: ${totalExists}`);
+  if (webdav) {
+    console.log(`    其中仅在 WebDAV: ${totalInWebDAV}`);
+  }
   console.log(`  缺失: ${totalMissing}`);
   console.log(`  需要下载的软件包: ${missingApps.length}`);
+  ctfileFolders.logStats();
 
   // Save to update-apps.json
   if (missingApps.length > 0) {
@@ -163,7 +213,7 @@ async function main() {
       },
     };
 
-    await Bun.write(updateFilePath, JSON.stringify(updateData, null, 2));
+    await writeJsonState(updateFilePath, updateData, ledger => ledger.saveSnapshot('update-apps.json', updateData));
     console.log(`✓ 已保存 ${missingApps.length} 个软件包到 update-apps.json`);
 
     console.log('\n📋 缺失的软件包列表:');
@@ -182,7 +232,7 @@ async function main() {
           item: [],
         },
       };
-      await Bun.write(updateFilePath, JSON.stringify(emptyData, null, 2));
+      await writeJsonState(updateFilePath, emptyData, ledger => ledger.saveSnapshot('update-apps.json', emptyData));
       console.log('✓ 已清空 update-apps.json');
     }
   }
@@ -3,13 +3,17 @@
 /**
  * Check Upload Progress Script
  *
- * 验证 upload-progress.json 中记录的文件是否真的存在于 CTFile
+ * 验证 upload-progress.json 中记录的文件是否真的存在于各存储后端
  *
  * 功能：
  * 1. 读取 upload-progress.json
- * 2. 对每个记录的文件，检查是否真的存在于 CTFile
- * 3. 清理无效的记录（文件不存在的）
- * 4. 保存更新后的 JSON
+ * 2. 对每个记录的副本，按文件夹列表检查文件是否真的存在于对应的存储后端，
+ *    并与 metadata-uploaded.json 中的文件大小核对
+ *    （旧格式记录没有副本信息，按原方式检查 CTFile）
+ * 3. 对账：后端上已有文件但没有记录为 uploaded 的副本，补记为 uploaded
+ * 4. 报告缺失的副本（replicate 模式下包括尚未上传或上传失败的后端）
+ * 5. 清理无效的记录（所有副本都不存在的），缺失的副本标记为 missing 以便重新上传
+ * 6. 保存更新后的 JSON
  *
  * 用途：
  * - 确保上传记录的准确性
@@ -20,37 +24,191 @@
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { CTFileClient } from './ctfile';
+import { CTFileFolderCache } from './ctfile-folder-cache';
 import { loadEnv, getEnv } from './env';
-import { checkFileExistsInCTFile, parseQpkgFilename, getProductFolderName } from './ctfile-utils';
-
-interface UploadProgress {
-  [filename: string]: {
-    signature: string;
-    ctfileUrl: string;
-    ctfileShortUrl?: string;
-    ctfileFolderUrl?: string;
-    uploadDate: string;
-  };
+import { writeJsonState } from './ledger';
+import { checkFileExistsInCTFile, inferProductNameFromFilename, parseQpkgFilename, getProductFolderName } from './ctfile-utils';
+import { createStorageBackends, getUploadMode, StorageInventory, type StorageEntry } from './storage';
+import type { ReplicaStatus, UploadedPackage, UploadProgress, UploadProgressRecord } from './types';
+
+/**
+ * 缺失的副本
+ */
+interface MissingReplica {
+  filename: string;
+  backend: string;
+  status: ReplicaStatus['status'] | 'not-uploaded';
+  attempts: number;
+  lastError?: string;
 }
 
 /**
- * 从文件名推断产品名称
- * 例如: MUSL_CROSS_11.1.5_x86_64.qpkg -> MUSL Framework
+ * 将第一个仍然存在的副本设为主下载链接（按 STORAGE_BACKENDS 顺序）
+ * @returns 没有可用副本时返回 false
  */
-function inferProductNameFromFilename(filename: string): string {
-  // 移除版本号和架构后缀
-  const baseName = filename.replace(/_[\d.]+_[^.]+\.qpkg$/, '');
-
-  // 处理特殊情况
-  const productNameMap: Record<string, string> = {
-    'MUSL_CROSS': 'MUSL Framework',
-    'ADGuard': 'AdGuard Home (Premium)',
-    'Apache83': 'Apache83',
-    'Apache84': 'Apache84',
-    'OpenList': 'OpenList',
+function updatePrimaryUrl(record: UploadProgressRecord, inventories: StorageInventory[]): boolean {
+  const replicas = record.replicas || {};
+  const order = (name: string) => {
+    const index = inventories.findIndex(i => i.backend.name === name);
+    return index === -1 ? inventories.length : index;
   };
+  // 有时效的链接（S3 预签名）只在没有其他副本时作为主链接
+  const primaryName = Object.keys(replicas)
+    .filter(name => replicas[name].status === 'uploaded')
+    .sort((a, b) => Number(!!replicas[a].expiresAt) - Number(!!replicas[b].expiresAt) || order(a) - order(b))[0];
+
+  if (!primaryName) {
+    return false;
+  }
+
+  const primary = replicas[primaryName];
+  record.primaryUrl = primary.url;
+  record.primaryShortUrl = primary.shortUrl;
+  record.primaryFolderUrl = primary.folderUrl;
+
+  // CTFile 链接只记录 CTFile 副本
+  const ctfile = replicas.ctfile?.status === 'uploaded' ? replicas.ctfile : undefined;
+  record.ctfileUrl = ctfile?.url;
+  record.ctfileShortUrl = ctfile?.shortUrl;
+  record.ctfileFolderUrl = ctfile?.folderUrl;
+  return true;
+}
+
+/**
+ * 查找远程文件，并与期望的文件大小核对
+ * @returns 文件信息；不存在时返回 undefined；大小不一致时返回错误描述
+ */
+async function findRemoteFile(
+  inventory: StorageInventory,
+  remotePath: string,
+  expectedSize?: number
+): Promise<{ entry?: StorageEntry; mismatch?: string }> {
+  const entry = await inventory.find(remotePath);
+
+  if (entry && expectedSize !== undefined && entry.size !== undefined && entry.size !== expectedSize) {
+    return { entry, mismatch: `大小不一致: 远程 ${entry.size} 字节，期望 ${expectedSize} 字节` };
+  }
+  return { entry };
+}
+
+/**
+ * 检查一条记录的所有副本
+ * 不存在或大小不一致的副本标记为 missing
+ * @returns 是否有副本被标记为 missing
+ */
+async function checkReplicas(
+  record: UploadProgressRecord,
+  inventories: StorageInventory[],
+  expectedSize?: number
+): Promise<boolean> {
+  let changed = false;
+
+  for (const [name, replica] of Object.entries(record.replicas || {})) {
+    if (replica.status !== 'uploaded') {
+      continue;
+    }
+
+    const inventory = inventories.find(i => i.backend.name === name);
+    if (!inventory) {
+      console.log(`  ℹ️  ${name}: 后端未配置，跳过检查`);
+      continue;
+    }
+
+    try {
+      const { entry, mismatch } = await findRemoteFile(inventory, replica.remotePath, expectedSize);
+
+      if (!entry) {
+        console.log(`  ✗ ${name}: 文件不存在 (${replica.remotePath})`);
+        replica.status = 'missing';
+        changed = true;
+      } else if (mismatch) {
+        console.log(`  ✗ ${name}: ${mismatch}`);
+        replica.status = 'missing';
+        replica.lastError = mismatch;
+        changed = true;
+      } else {
+        console.log(`  ✓ ${name}: 存在${entry.etag ? ` (ETag: ${entry.etag})` : ''}`);
+      }
+    } catch (error) {
+      console.log(`  ⚠️  ${name}: 检查时出错: ${error instanceof Error ? error.message : error}`);
+      console.log(`  ℹ️  保留副本（保守处理）`);
+    }
+  }
 
-  return productNameMap[baseName] || baseName;
+  return changed;
+}
+
+/**
+ * 对账：后端上已有文件，但记录中没有标记为 uploaded 的副本
+ * （例如手动上传、记录写入前中断、旧版本 fallback 上传到 WebDAV）
+ * 所有后端使用相同的目录结构，因此按已有副本的 remotePath 查找
+ * @returns 补记的副本数量
+ */
+async function reconcileReplicas(
+  record: UploadProgressRecord,
+  inventories: StorageInventory[],
+  expectedSize?: number
+): Promise<number> {
+  const replicas = record.replicas || {};
+  const remotePath = Object.values(replicas)[0]?.remotePath;
+  if (!remotePath) {
+    return 0;
+  }
+
+  let reconciled = 0;
+
+  for (const inventory of inventories) {
+    const name = inventory.backend.name;
+    const replica = replicas[name];
+    if (replica?.status === 'uploaded') {
+      continue;
+    }
+
+    try {
+      const { entry, mismatch } = await findRemoteFile(inventory, remotePath, expectedSize);
+      if (!entry || mismatch) {
+        continue;
+      }
+
+      console.log(`  ♻️  ${name}: 后端已有文件，补记为已上传`);
+      replicas[name] = {
+        ...replica,
+        status: 'uploaded',
+        remotePath: entry.path,
+        url: entry.url || inventory.backend.getPublicUrl(entry.path),
+        uploadDate: entry.modified || new Date().toISOString(),
+        attempts: replica?.attempts || 0,
+        lastError: undefined,
+      };
+      reconciled++;
+    } catch (error) {
+      console.log(`  ⚠️  ${name}: 对账时出错: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  record.replicas = replicas;
+  return reconciled;
+}
+
+/**
+ * 读取 metadata-uploaded.json 中的文件大小，用于核对远程文件
+ */
+async function loadExpectedSizes(): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  const metadataPath = join(process.cwd(), 'config', 'metadata-uploaded.json');
+
+  if (existsSync(metadataPath)) {
+    try {
+      const packages: UploadedPackage[] = await Bun.file(metadataPath).json();
+      for (const pkg of packages) {
+        sizes.set(pkg.filename, pkg.fileSize);
+      }
+    } catch (error) {
+      console.warn(`  ⚠ 无法读取 metadata-uploaded.json: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return sizes;
 }
 
 /**
@@ -58,19 +216,22 @@ function inferProductNameFromFilename(filename: string): string {
  */
 async function main() {
   console.log('='.repeat(60));
-  console.log('检查 upload-progress.json 中的文件是否存在于 CTFile');
+  console.log('检查 upload-progress.json 中的文件是否存在于存储后端');
   console.log('='.repeat(60));
 
   // Load environment
   await loadEnv();
 
-  const session = getEnv('CTFILE_SESSION');
-  const rootFolderId = getEnv('CTFILE_FOLDER_ID');
+  const mode = getUploadMode();
+  const backends = createStorageBackends();
+  const inventories = backends.map(backend => new StorageInventory(backend));
+  console.log(`\n🔑 存储后端: ${backends.map(b => b.name).join(', ')}`);
+  console.log(`  上传模式: ${mode}`);
+
+  const expectedSizes = await loadExpectedSizes();
 
-  // Initialize CTFile client
-  const ctfileClient = new CTFileClient(session);
-  console.log(`\n🔑 CTFile 配置:`);
-  console.log(`  Root folder ID: ${rootFolderId}`);
+  // CTFile folder cache for records written before replicas were tracked, created on first use
+  let ctfileFolders: CTFileFolderCache | null = null;
 
   // Get progress file path
   const progressFilePath = join(process.cwd(), 'config', 'upload-progress.json');
@@ -100,9 +261,12 @@ async function main() {
   let totalChecked = 0;
   let totalExists = 0;
   let totalMissing = 0;
+  let totalChanged = 0;
+  let totalReconciled = 0;
 
   const validProgress: UploadProgress = {};
   const invalidFiles: string[] = [];
+  const missingReplicas: MissingReplica[] = [];
 
   for (const filename of filenames) {
     totalChecked++;
@@ -110,7 +274,46 @@ async function main() {
 
     console.log(`\n[${totalChecked}/${filenames.length}] ${filename}`);
     console.log(`  上传时间: ${record.uploadDate}`);
-    console.log(`  CTFile URL: ${record.ctfileUrl}`);
+    console.log(`  URL: ${record.primaryUrl || record.ctfileUrl}`);
+
+    if (record.replicas) {
+      const expectedSize = expectedSizes.get(filename);
+
+      if (await checkReplicas(record, inventories, expectedSize)) {
+        totalChanged++;
+      }
+
+      const reconciled = await reconcileReplicas(record, inventories, expectedSize);
+      if (reconciled > 0) {
+        totalReconciled += reconciled;
+        totalChanged++;
+      }
+
+      // In replicate mode every configured backend should hold a copy
+      for (const backend of backends) {
+        const replica = record.replicas[backend.name];
+        if (replica?.status === 'uploaded' || (mode === 'fallback' && replica?.status !== 'missing')) {
+          continue;
+        }
+        missingReplicas.push({
+          filename,
+          backend: backend.name,
+          status: replica?.status || 'not-uploaded',
+          attempts: replica?.attempts || 0,
+          lastError: replica?.lastError,
+        });
+      }
+
+      if (updatePrimaryUrl(record, inventories)) {
+        validProgress[filename] = record;
+        totalExists++;
+      } else {
+        console.log(`  ✗ 所有副本都不存在，删除记录`);
+        invalidFiles.push(filename);
+        totalMissing++;
+      }
+      continue;
+    }
 
     // Parse filename to extract version and architecture
     const parsed = parseQpkgFilename(filename);
@@ -134,9 +337,12 @@ async function main() {
 
     // Check if file exists in CTFile
     try {
+      if (!ctfileFolders) {
+        ctfileFolders = new CTFileFolderCache(new CTFileClient(getEnv('CTFILE_SESSION')), getEnv('CTFILE_FOLDER_ID'));
+      }
+
       const exists = await checkFileExistsInCTFile(
-        ctfileClient,
-        rootFolderId,
+        ctfileFolders,
         productName,
         version,
         architecture
@@ -166,6 +372,9 @@ async function main() {
   console.log(`  总计记录: ${totalChecked}`);
   console.log(`  文件存在: ${totalExists}`);
   console.log(`  文件缺失: ${totalMissing}`);
+  console.log(`  缺失副本: ${missingReplicas.length}`);
+  console.log(`  补记副本: ${totalReconciled}`);
+  ctfileFolders?.logStats();
 
   if (invalidFiles.length > 0) {
     console.log('\n🗑️  无效的上传记录:');
@@ -174,11 +383,27 @@ async function main() {
     }
   }
 
+  if (missingReplicas.length > 0) {
+    console.log('\n📋 缺失的副本:');
+    for (const backend of backends) {
+      const missing = missingReplicas.filter(m => m.backend === backend.name);
+      if (missing.length === 0) continue;
+
+      console.log(`  ${backend.name} (${missing.length}):`);
+      for (const m of missing) {
+        const attempts = m.attempts > 0 ? `, 已尝试 ${m.attempts} 次` : '';
+        const error = m.lastError ? `: ${m.lastError}` : '';
+        console.log(`    - ${m.filename} (${m.status}${attempts})${error}`);
+      }
+    }
+    console.log('\n💡 再次运行 upload 会补传 missing / failed / not-uploaded 的副本（replicate 模式）');
+  }
+
   // Save updated progress
-  if (totalMissing > 0) {
+  if (totalMissing > 0 || totalChanged > 0) {
     console.log(`\n💾 保存更新后的 upload-progress.json...`);
-    await Bun.write(progressFilePath, JSON.stringify(validProgress, null, 2));
-    console.log(`✓ 已删除 ${totalMissing} 个无效记录`);
+    await writeJsonState(progressFilePath, validProgress, ledger => ledger.syncUploads(validProgress));
+    console.log(`✓ 已删除 ${totalMissing} 个无效记录，更新了 ${totalChanged} 个记录的副本状态`);
   } else {
     console.log('\n✓ 所有记录都有效，无需更新文件');
   }
@@ -0,0 +1,74 @@
+#!/usr/bin/env bun
+
+/**
+ * Clean Local Downloads
+ *
+ * Applies the downloads policy to downloads/: removes superseded versions,
+ * uploaded files and least recently used uploaded files over the disk
+ * budget, and drops their entries from config/metadata.json.
+ *
+ * The same policy runs automatically before downloads and after uploads;
+ * this script applies it on demand. Like prune, it runs as a dry run unless
+ * --apply is given.
+ *
+ * Usage:
+ *   bun run src/clean-downloads.ts [--apply]
+ *
+ * Environment:
+ *   DOWNLOADS_KEEP_VERSIONS   - Keep the N most recent versions per product and architecture
+ *   DOWNLOADS_MAX_AGE_DAYS    - Keep versions published within the last N days
+ *   DOWNLOADS_DELETE_UPLOADED - Remove files once their upload is confirmed (default: false)
+ *   DOWNLOADS_MAX_BYTES       - Total size budget of downloads/, in bytes
+ *   DOWNLOADS_MIN_FREE_BYTES  - Free space downloads must leave on the disk (default: 1 GiB)
+ */
+
+import { join } from 'path';
+import { loadEnv } from './env';
+import { cleanDownloads, describeDownloadsPolicy, getDownloadsPolicy } from './downloads-retention';
+import { formatBytes } from './utils/format';
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Clean Local Downloads');
+  console.log('='.repeat(60));
+
+  await loadEnv();
+
+  const args = process.argv.slice(2);
+  const unknown = args.filter(arg => arg !== '--apply');
+  if (unknown.length > 0) {
+    throw new Error(`Unknown option: ${unknown[0]} (expected --apply)`);
+  }
+  const apply = args.includes('--apply');
+
+  const outputDir = join(process.cwd(), 'downloads');
+  const policy = getDownloadsPolicy();
+
+  console.log(`\n📋 Policy: ${describeDownloadsPolicy(policy)}`);
+  console.log(`   Mode: ${apply ? 'apply (files will be removed)' : 'dry run'}`);
+
+  const evictions = await cleanDownloads(outputDir, policy, apply);
+  const freed = evictions.reduce((sum, e) => sum + e.file.size, 0);
+
+  console.log('');
+  for (const { file, reason } of evictions) {
+    console.log(`  🗑  ${file.filename} (${formatBytes(file.size)}) - ${reason}`);
+  }
+
+  if (evictions.length === 0) {
+    console.log('✓ Nothing to remove');
+  } else if (apply) {
+    console.log(`\n✓ Removed ${evictions.length} file(s), freed ${formatBytes(freed)}`);
+  } else {
+    console.log(`\n💡 Dry run, nothing was removed (${formatBytes(freed)} would be freed). Run again with --apply to remove these files.`);
+  }
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,249 @@
+/**
+ * CTFile Folder Cache
+ *
+ * Persists the path → folder ID mapping below CTFILE_FOLDER_ID in
+ * config/ctfile-folder-cache.json, so folders are not looked up again on
+ * every run.
+ *
+ * - Hits are trusted without an API call
+ * - On a miss, the parent folder is listed once and every child is cached, so
+ *   one listing of the root covers all product folders
+ * - A parent listed during this run is authoritative: children missing from
+ *   it don't exist (until created through this cache)
+ * - Callers invalidate a path when an API call using its ID fails; the next
+ *   lookup lists the parent again
+ */
+
+import { writeFileAtomic } from './utils/file';
+import { CTFileClient, type CTFileEntry } from './ctfile';
+
+/**
+ * Default cache file location
+ */
+export const DEFAULT_FOLDER_CACHE_FILE = 'config/ctfile-folder-cache.json';
+
+/**
+ * Cache file structure
+ */
+interface FolderCacheFile {
+  rootFolderId: string;
+  folders: Record<string, CachedFolder>;
+}
+
+interface CachedFolder {
+  id: string;
+  updatedAt: string;
+}
+
+export class CTFileFolderCache {
+  readonly client: CTFileClient;
+  readonly rootFolderId: string;
+
+  private cacheFilePath: string;
+  private folders: Record<string, CachedFolder> = {};
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  // Per-run state, not persisted
+  private listedParents = new Set<string>();
+  private fileListings = new Map<string, Promise<CTFileEntry[]>>();
+
+  /**
+   * Lookups and API calls made during this run, for logging
+   */
+  readonly stats = { hits: 0, listings: 0, created: 0, invalidated: 0 };
+
+  constructor(client: CTFileClient, rootFolderId: string, cacheFilePath: string = DEFAULT_FOLDER_CACHE_FILE) {
+    this.client = client;
+    this.rootFolderId = rootFolderId;
+    this.cacheFilePath = cacheFilePath;
+  }
+
+  /**
+   * Load the cache file once; a cache for a different root folder is discarded
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const file = Bun.file(this.cacheFilePath);
+        if (!await file.exists()) {
+          return;
+        }
+
+        try {
+          const data: FolderCacheFile = await file.json();
+          if (data.rootFolderId === this.rootFolderId) {
+            this.folders = data.folders || {};
+          }
+        } catch (error) {
+          console.warn(`  ⚠ Failed to load folder cache: ${error instanceof Error ? error.message : error}`);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Write the cache file (atomically, via rename); writes are serialized
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const data: FolderCacheFile = { rootFolderId: this.rootFolderId, folders: this.folders };
+
+      try {
+        await writeFileAtomic(this.cacheFilePath, JSON.stringify(data, null, 2));
+      } catch (error) {
+        console.warn(`  ⚠ Failed to save folder cache: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    return this.saving;
+  }
+
+  private remember(path: string, id: string): void {
+    this.folders[path] = { id, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * List a parent folder and cache all of its subfolders
+   */
+  private async listChildren(parentPath: string, parentId: string): Promise<void> {
+    this.stats.listings++;
+
+    // Drop cached children first: anything not listed no longer exists
+    const prefix = parentPath ? `${parentPath}/` : '';
+    for (const path of Object.keys(this.folders)) {
+      if (path.startsWith(prefix) && !path.substring(prefix.length).includes('/')) {
+        delete this.folders[path];
+      }
+    }
+
+    for await (const folder of this.client.iterateFolders(parentId, true)) {
+      this.remember(`${prefix}${folder.name}`, folder.id);
+    }
+
+    this.listedParents.add(parentPath);
+    await this.save();
+  }
+
+  /**
+   * Resolve a folder path (relative to the root folder) to its ID
+   *
+   * @param folderPath - e.g., "Apache84/2025-11"
+   * @param create - Create missing folders
+   * @returns Folder ID, or null if the folder doesn't exist and create is false
+   */
+  async resolve(folderPath: string, create: boolean = false): Promise<string | null> {
+    await this.load();
+
+    const segments = folderPath.split('/').filter(p => p);
+    let parentPath = '';
+    let parentId = this.rootFolderId;
+
+    for (const segment of segments) {
+      const path = parentPath ? `${parentPath}/${segment}` : segment;
+
+      // Keep the ID in a local: a concurrent listing may drop the entry while we await
+      let id = this.folders[path]?.id;
+      if (id) {
+        this.stats.hits++;
+      } else if (!this.listedParents.has(parentPath)) {
+        await this.listChildren(parentPath, parentId);
+        id = this.folders[path]?.id;
+      }
+
+      if (!id) {
+        if (!create) {
+          return null;
+        }
+
+        const folder = await this.client.createFolder(segment, parentId, true);
+        this.stats.created++;
+        id = folder.folderId;
+        this.remember(path, id);
+        await this.save();
+      }
+
+      parentPath = path;
+      parentId = id;
+    }
+
+    return parentId;
+  }
+
+  /**
+   * Names of the subfolders of a folder ("" for the root)
+   * The folder is listed once per run; later calls are served from the cache
+   * @returns Names, or null if the folder doesn't exist
+   */
+  async listSubfolders(folderPath: string): Promise<string[] | null> {
+    const path = folderPath.split('/').filter(p => p).join('/');
+    const folderId = path ? await this.resolve(path) : this.rootFolderId;
+    if (!folderId) {
+      return null;
+    }
+
+    if (!this.listedParents.has(path)) {
+      await this.listChildren(path, folderId);
+    }
+
+    const prefix = path ? `${path}/` : '';
+    return Object.keys(this.folders)
+      .filter(key => key.startsWith(prefix) && !key.substring(prefix.length).includes('/'))
+      .map(key => key.substring(prefix.length));
+  }
+
+  /**
+   * List the files of a folder, once per run
+   * @returns Entries, or null if the folder doesn't exist
+   */
+  async listFiles(folderPath: string): Promise<CTFileEntry[] | null> {
+    const folderId = await this.resolve(folderPath);
+    if (!folderId) {
+      return null;
+    }
+
+    if (!this.fileListings.has(folderPath)) {
+      const listing = this.client.listFiles(folderId, true);
+      // Don't keep failed listings around
+      listing.catch(() => this.fileListings.delete(folderPath));
+      this.fileListings.set(folderPath, listing);
+    }
+
+    return await this.fileListings.get(folderPath)!;
+  }
+
+  /**
+   * Forget a folder and everything below it after an API error
+   * The parent is listed again on the next lookup
+   */
+  async invalidate(folderPath: string): Promise<void> {
+    await this.load();
+
+    const path = folderPath.split('/').filter(p => p).join('/');
+    const parentPath = path.split('/').slice(0, -1).join('/');
+
+    for (const key of Object.keys(this.folders)) {
+      if (key === path || key.startsWith(`${path}/`)) {
+        delete this.folders[key];
+      }
+    }
+    for (const key of [...this.fileListings.keys()]) {
+      if (key === path || key.startsWith(`${path}/`)) {
+        this.fileListings.delete(key);
+      }
+    }
+    this.listedParents.delete(parentPath);
+    this.listedParents.delete(path);
+
+    this.stats.invalidated++;
+    await this.save();
+  }
+
+  /**
+   * Log cache statistics for this run
+   */
+  logStats(): void {
+    const { hits, listings, created, invalidated } = this.stats;
+    console.log(`  📇 Folder cache: ${hits} hit(s), ${listings} listing(s), ${created} created, ${invalidated} invalidated`);
+  }
+}
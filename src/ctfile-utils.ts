@@ -4,30 +4,10 @@
  * Common utilities for working with CTFile storage
  */
 
-import { CTFileClient } from './ctfile';
-import { getEnv } from './env';
+import type { CTFileFolderCache } from './ctfile-folder-cache';
+import { findRemoteFolders } from './remote-path';
 
-/**
- * Get product folder name from product name
- * Normalizes product name for use as folder name
- */
-export function getProductFolderName(productName: string): string {
-  return productName
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, '_')
-    .replace(/_+/g, '_')
-    .trim();
-}
-
-/**
- * Get current year-month string (YYYY-MM format)
- */
-export function getCurrentYearMonth(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  return `${year}-${month}`;
-}
+export { getProductFolderName } from './remote-path';
 
 /**
  * Parse QPKG filename to extract version and architecture
@@ -48,95 +28,94 @@ export function parseQpkgFilename(filename: string): { version?: string; arch?:
   return {};
 }
 
+/**
+ * Infer the product name from a QPKG filename
+ *
+ * Examples:
+ * - Apache83_2465.83260_x86_64.qpkg -> Apache83
+ * - MUSL_CROSS_11.1.5_x86_64.qpkg -> MUSL Framework
+ *
+ * @returns Empty string if the file name has no product part
+ */
+export function inferProductNameFromFilename(filename: string): string {
+  // Remove the version and architecture suffix
+  const baseName = filename.replace(/_[\d.]+_[^.]+\.qpkg$/, '');
+
+  // Products whose file name differs from the product name
+  const productNameMap: Record<string, string> = {
+    'MUSL_CROSS': 'MUSL Framework',
+    'ADGuard': 'AdGuard Home (Premium)',
+    'Apache83': 'Apache83',
+    'Apache84': 'Apache84',
+    'OpenList': 'OpenList',
+  };
+
+  return productNameMap[baseName] || baseName;
+}
+
 /**
  * Check if a file exists in CTFile with the same version and architecture
  *
- * Folder structure: rootFolderId / ProductName / YYYY-MM / files
+ * Folder structure: rootFolderId / REMOTE_PATH_TEMPLATE / files
+ * (default: ProductName / YYYY-MM). The upload month isn't known here, so
+ * every month folder matching the template is searched, newest first.
+ *
+ * Folder IDs and file listings come from the folder cache, so checking many
+ * platforms of the same product lists each folder only once per run.
  *
- * @param ctfileClient CTFile client instance
- * @param rootFolderId Root folder ID (e.g., qnaporg-github folder)
+ * @param folders Folder cache for the root folder (e.g., qnaporg-github folder)
  * @param productName Product name (e.g., "Apache83")
  * @param version Version string (e.g., "2465.83260")
  * @param architecture Architecture string (e.g., "x86_64")
+ * @param publishedDate Publish date, for templates using {publishedMonth}
  * @returns true if file exists with same version and architecture
  */
 export async function checkFileExistsInCTFile(
-  ctfileClient: CTFileClient,
-  rootFolderId: string,
+  folders: CTFileFolderCache,
   productName: string,
   version: string,
-  architecture: string
+  architecture: string,
+  publishedDate?: string
 ): Promise<boolean> {
   try {
-    const productFolderName = getProductFolderName(productName);
-    const yearMonth = getCurrentYearMonth();
-
-    // Step 1: Find product folder under root folder
-    const productListResult = await ctfileClient.listFolders(rootFolderId, true);
-    const productFolders = productListResult.data || [];
-    const productFolder = productFolders.find((f: any) =>
-      f.name === productFolderName || f.folder_name === productFolderName
-    );
-
-    if (!productFolder) {
-      console.log(`  ℹ️  产品文件夹不存在: ${productFolderName}`);
-      return false;
-    }
-
-    const productFolderId = productFolder.id || productFolder.folder_id;
-    console.log(`  ℹ️  找到产品文件夹: ${productFolderName} (ID: ${productFolderId})`);
-
-    // Step 2: Find monthly folder under product folder
-    const monthlyListResult = await ctfileClient.listFolders(productFolderId, true);
-    const monthlyFolders = monthlyListResult.data || [];
-    const monthlyFolder = monthlyFolders.find((f: any) =>
-      f.name === yearMonth || f.folder_name === yearMonth
+    // Step 1: Find the folders the package may be in
+    const folderPaths = await findRemoteFolders(
+      { productName, version, architecture, publishedDate },
+      async folderPath => await folders.listSubfolders(folderPath) || []
     );
 
-    if (!monthlyFolder) {
-      console.log(`  ℹ️  月份文件夹不存在: ${yearMonth}`);
+    if (folderPaths.length === 0) {
+      console.log(`  ℹ️  文件夹不存在: ${productName}`);
       return false;
     }
 
-    const monthlyFolderId = monthlyFolder.id || monthlyFolder.folder_id;
-    console.log(`  ℹ️  找到月份文件夹: ${yearMonth} (ID: ${monthlyFolderId})`);
-
-    // Step 3: List files in monthly folder
-    const normalizedFolderId = monthlyFolderId.startsWith('d') ? monthlyFolderId : `d${monthlyFolderId}`;
-
-    const endpoint = '/public/file/list';
-    const session = getEnv('CTFILE_SESSION');
-    const baseUrl = 'https://rest.ctfile.com/v1';
-
-    const response = await fetch(`${baseUrl}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        session: session,
-        folder_id: normalizedFolderId,
-        page: 1,
-        page_size: 100,
-      }),
-    });
+    for (const folderPath of folderPaths) {
+      // Step 2: List the folder's files
+      let files;
+      try {
+        files = await folders.listFiles(folderPath);
+      } catch (error) {
+        // A cached folder ID may be stale; look it up again once
+        console.log(`  ℹ️  列出文件失败，刷新文件夹缓存后重试: ${error instanceof Error ? error.message : error}`);
+        await folders.invalidate(folderPath);
+        files = await folders.listFiles(folderPath);
+      }
 
-    if (!response.ok) {
-      console.warn(`  ⚠️  无法列出文件: ${response.status}`);
-      return false;
-    }
+      if (!files) {
+        console.log(`  ℹ️  文件夹不存在: ${folderPath}`);
+        continue;
+      }
 
-    const result = await response.json() as any;
-    const files = result.results || result.data || [];
+      // Step 3: Check if any file matches the version and architecture
+      for (const file of files) {
+        if (file.isFolder) continue;
 
-    // Step 4: Check if any file matches the version and architecture
-    for (const file of files) {
-      const filename = file.name || file.file_name || '';
-      const parsed = parseQpkgFilename(filename);
+        const parsed = parseQpkgFilename(file.name);
 
-      if (parsed.version === version && parsed.arch === architecture) {
-        console.log(`  ✓ 文件已存在: ${filename}`);
-        return true;
+        if (parsed.version === version && parsed.arch === architecture) {
+          console.log(`  ✓ 文件已存在: ${folderPath}/${file.name}`);
+          return true;
+        }
       }
     }
 
@@ -1,6 +1,7 @@
 import { basename } from 'path';
-import { createHash } from 'crypto';
 import { formatBytes, formatDuration } from './utils/format';
+import { hashFile } from './utils/hash';
+import { writeFileAtomic } from './utils/file';
 
 export interface UploadedFile {
   fileName: string;
@@ -18,46 +19,72 @@ export interface FolderInfo {
 }
 
 /**
- * Calculate MD5 hash of a file using streaming (memory-efficient for large files)
+ * File or folder returned by the CTFile list endpoints
  */
-async function calculateMD5(filePath: string): Promise<string> {
-  const file = Bun.file(filePath);
-  const fileSize = file.size;
-  const hash = createHash('md5');
-
-  const stream = file.stream();
-  const reader = stream.getReader();
+export interface CTFileEntry {
+  key: string;           // API key (folders: "d" + ID)
+  id: string;            // Folder ID without "d" prefix, or file ID
+  name: string;
+  isFolder: boolean;
+  size?: number;
+  date?: string;
+  downloadUrl?: string;
+  shortUrl?: string;
+  md5?: string;          // Content MD5, when the listing includes one
+}
 
-  let bytesProcessed = 0;
-  let lastLogTime = Date.now();
+/**
+ * Entries requested per page from the list endpoints
+ */
+const LIST_PAGE_SIZE = 100;
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
+/**
+ * Safety limit for pagination in case the API ignores the page parameter
+ */
+const MAX_LIST_PAGES = 1000;
 
-      if (done) break;
+/**
+ * Upload state kept across attempts and runs (see CTFileClient.uploadFile)
+ */
+interface UploadSession {
+  uploadUrl: string;
+  checksum: string;
+  size: number;
+  createdAt: string;
+}
 
-      hash.update(value);
-      bytesProcessed += value.length;
+/**
+ * Interrupted upload sessions, keyed by "folderId/fileName"
+ */
+const UPLOAD_SESSIONS_FILE = 'config/ctfile-upload-sessions.json';
 
-      // Show progress every 1 second for large files (>100MB)
-      const now = Date.now();
-      if (fileSize > 100 * 1024 * 1024 && now - lastLogTime > 1000) {
-        const progress = ((bytesProcessed / fileSize) * 100).toFixed(1);
-        process.stdout.write(`\r  ⏳ Computing MD5: ${progress}%`);
-        lastLogTime = now;
-      }
-    }
+/**
+ * How long an upload URL is reused (30 minutes)
+ */
+const UPLOAD_SESSION_TTL = 30 * 60 * 1000;
 
-    // Clear progress line if it was shown
-    if (fileSize > 100 * 1024 * 1024) {
-      process.stdout.write('\r\x1b[K'); // Clear line
-    }
+/**
+ * Abort an upload when no data has been sent for this long (5 minutes)
+ */
+const UPLOAD_STALL_TIMEOUT = 5 * 60 * 1000;
 
-    return hash.digest('hex');
-  } finally {
-    reader.releaseLock();
-  }
+/**
+ * Convert a raw list entry from the API into a CTFileEntry
+ */
+function toEntry(item: any): CTFileEntry {
+  const isFolder = item.icon === 'folder';
+  const key = (item.key ?? item.id ?? item.file_id ?? item.folder_id ?? '').toString();
+  return {
+    key,
+    id: isFolder ? key.replace(/^d/, '') : (item.id ?? item.file_id ?? key).toString(),
+    name: item.name || item.file_name || item.folder_name || '',
+    isFolder,
+    size: item.size !== undefined ? Number(item.size) : undefined,
+    date: item.date,
+    downloadUrl: item.download_url || item.url,
+    shortUrl: item.short_url,
+    md5: item.md5 || item.checksum || undefined,
+  };
 }
 
 export class CTFileClient {
@@ -185,15 +212,10 @@ export class CTFileClient {
       console.log(`  ⚠ API says folder exists, verifying it's in the correct parent...`);
 
       // Re-list the parent folder to see if folder was actually created there
-      const listResult = await this.listFolders(parentId, isPublic);
-      const folders = listResult.data || [];
-
-      const actualFolder = folders.find((f: any) =>
-        f.name === folderName || f.folder_name === folderName
-      );
+      const actualFolder = await this.findFolder(folderName, parentId, isPublic);
 
       if (actualFolder) {
-        const folderId = actualFolder.id || actualFolder.folder_id || '';
+        const folderId = actualFolder.id;
         console.log(`  ✓ Folder found in correct parent: ${folderName} (ID: ${folderId})`);
         return {
           folderId,
@@ -220,47 +242,90 @@ export class CTFileClient {
   }
 
   /**
-   * List folders in a parent folder
+   * Iterate over every entry of a list endpoint, page by page
+   * Stops at the first short page, so callers that break early save requests
    */
-  async listFolders(parentId: string = '0', isPublic: boolean = true): Promise<any> {
-    const normalizedParentId = this.normalizeFolderId(parentId);
-    console.log(`  Listing folders in parent: ${normalizedParentId}...`);
+  private async *paginate(endpoint: string, folderId: string): AsyncGenerator<CTFileEntry> {
+    let previousFirstKey: string | undefined;
+
+    for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+      const result = await this.request(endpoint, {
+        folder_id: this.normalizeFolderId(folderId),
+        page,
+        page_size: LIST_PAGE_SIZE,
+      });
+
+      const items: any[] = result.results || result.data || [];
+      const entries = items.map(toEntry);
+
+      // Guard against the API returning the same page again
+      if (entries.length > 0 && entries[0].key === previousFirstKey) {
+        break;
+      }
+      previousFirstKey = entries[0]?.key;
+
+      yield* entries;
+
+      if (items.length < LIST_PAGE_SIZE) {
+        break;
+      }
+    }
+  }
 
+  /**
+   * Iterate over the subfolders of a folder, fetching pages on demand
+   */
+  async *iterateFolders(parentId: string = '0', isPublic: boolean = true): AsyncGenerator<CTFileEntry> {
     const endpoint = isPublic ? '/public/folder/list' : '/private/folder/list';
 
-    const data = {
-      folder_id: normalizedParentId,
-      page: 1,
-      page_size: 100,
-    };
+    for await (const entry of this.paginate(endpoint, parentId)) {
+      if (entry.isFolder) {
+        yield entry;
+      }
+    }
+  }
 
-    const result = await this.request(endpoint, data);
+  /**
+   * Iterate over the files (and subfolders) of a folder, fetching pages on demand
+   */
+  async *iterateFiles(folderId: string, isPublic: boolean = true): AsyncGenerator<CTFileEntry> {
+    const endpoint = isPublic ? '/public/file/list' : '/private/file/list';
+    yield* this.paginate(endpoint, folderId);
+  }
+
+  /**
+   * List all folders in a parent folder (every page)
+   */
+  async listFolders(parentId: string = '0', isPublic: boolean = true): Promise<CTFileEntry[]> {
+    console.log(`  Listing folders in parent: ${this.normalizeFolderId(parentId)}...`);
 
-    // Normalize the response: CTFile API uses 'results' field
-    if (result.results && !result.data) {
-      // Filter to only include folders (icon === "folder"), not files
-      const foldersOnly = result.results.filter((item: any) => item.icon === 'folder');
-
-      result.data = foldersOnly.map((item: any) => ({
-        id: item.key?.replace(/^d/, ''), // Remove 'd' prefix with regex
-        folder_id: item.key?.replace(/^d/, ''),
-        name: item.name,
-        folder_name: item.name,
-        date: item.date,
-      }));
+    const folders: CTFileEntry[] = [];
+    for await (const folder of this.iterateFolders(parentId, isPublic)) {
+      folders.push(folder);
     }
 
-    const folderCount = result.data?.length || 0;
-    console.log(`  ✓ Found ${folderCount} folder(s)`);
+    console.log(`  ✓ Found ${folders.length} folder(s)`);
 
     // Debug: log folder names for troubleshooting (max 20)
-    if (folderCount > 0 && folderCount <= 20) {
-      result.data.forEach((f: any) => {
-        console.log(`     - "${f.name || f.folder_name}" (ID: ${f.id || f.folder_id})`);
+    if (folders.length > 0 && folders.length <= 20) {
+      folders.forEach(f => {
+        console.log(`     - "${f.name}" (ID: ${f.id})`);
       });
     }
 
-    return result;
+    return folders;
+  }
+
+  /**
+   * Find a subfolder by name, stopping at the page that contains it
+   */
+  async findFolder(folderName: string, parentId: string = '0', isPublic: boolean = true): Promise<CTFileEntry | undefined> {
+    for await (const folder of this.iterateFolders(parentId, isPublic)) {
+      if (folder.name === folderName) {
+        return folder;
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -279,17 +344,11 @@ export class CTFileClient {
     console.log(`\n📁 Finding or creating folder: ${folderName}`);
 
     try {
-      // List existing folders
-      const listResult = await this.listFolders(parentId, isPublic);
-      const folders = listResult.data || [];
-
       // Check if folder exists
-      const existingFolder = folders.find((f: any) =>
-        f.name === folderName || f.folder_name === folderName
-      );
+      const existingFolder = await this.findFolder(folderName, parentId, isPublic);
 
       if (existingFolder) {
-        const folderId = existingFolder.id || existingFolder.folder_id || '';
+        const folderId = existingFolder.id;
         console.log(`  ✓ Folder already exists: ${folderName} (ID: ${folderId})`);
         return {
           folderId,
@@ -312,12 +371,15 @@ export class CTFileClient {
     }
   }
 
-  async getUploadUrl(folderId: string, filePath: string, isPublic: boolean = true): Promise<string> {
+  /**
+   * Request an upload URL for a file
+   * @param checksum Hex MD5 of the file (required by the API, computed by the caller)
+   */
+  async getUploadUrl(folderId: string, filePath: string, checksum: string, isPublic: boolean = true): Promise<string> {
     const normalizedFolderId = this.normalizeFolderId(folderId);
     const fileName = basename(filePath);
     const file = Bun.file(filePath);
     const fileSize = file.size;
-    const checksum = await calculateMD5(filePath);
 
     console.log(`  Getting upload URL...`);
     console.log(`    File: ${fileName}`);
@@ -349,29 +411,19 @@ export class CTFileClient {
    */
   async getFileInfo(fileId: string, folderId: string, fileName: string, isPublic: boolean = true): Promise<{ downloadUrl: string; shortUrl?: string }> {
     try {
-      // Try to list files in folder to find the uploaded file
-      const endpoint = isPublic ? '/public/file/list' : '/private/file/list';
-
-      const data = {
-        folder_id: this.normalizeFolderId(folderId),
-        page: 1,
-        page_size: 100,
-      };
-
-      const result = await this.request(endpoint, data);
-
-      // Find the file in the list
-      const files = result.results || result.data || [];
-      const file = files.find((f: any) =>
-        (f.id === fileId || f.file_id === fileId || f.id?.toString() === fileId || f.key === fileId) ||
-        (f.name === fileName || f.file_name === fileName)
-      );
+      // Search the folder's files for the uploaded file
+      for await (const file of this.iterateFiles(folderId, isPublic)) {
+        if (file.id !== fileId && file.key !== fileId && file.name !== fileName) {
+          continue;
+        }
 
-      if (file && (file.download_url || file.url)) {
-        return {
-          downloadUrl: file.download_url || file.url,
-          shortUrl: file.short_url,
-        };
+        if (file.downloadUrl) {
+          return {
+            downloadUrl: file.downloadUrl,
+            shortUrl: file.shortUrl,
+          };
+        }
+        break;
       }
 
       // Fallback: construct URL based on file ID
@@ -389,6 +441,50 @@ export class CTFileClient {
     }
   }
 
+  /**
+   * List all files (and subfolders) in a folder (every page)
+   */
+  async listFiles(folderId: string, isPublic: boolean = true): Promise<CTFileEntry[]> {
+    const entries: CTFileEntry[] = [];
+    for await (const entry of this.iterateFiles(folderId, isPublic)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Delete a file by its ID (key)
+   */
+  async deleteFile(fileId: string, isPublic: boolean = true): Promise<void> {
+    await this.deleteFiles([fileId], isPublic);
+  }
+
+  /**
+   * Delete several files and/or folders in one request
+   * File and folder IDs can be mixed; folder IDs need the 'd' prefix
+   */
+  async deleteFiles(ids: string[], isPublic: boolean = true): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const endpoint = isPublic ? '/public/file/delete' : '/private/file/delete';
+    console.log(`  Deleting: ${ids.join(', ')}...`);
+
+    await this.request(endpoint, { ids });
+    console.log(`  ✓ Deleted ${ids.length} item(s)`);
+  }
+
+  /**
+   * Delete a folder by its ID, including its contents
+   */
+  async deleteFolder(folderId: string, isPublic: boolean = true): Promise<void> {
+    if (this.normalizeFolderId(folderId) === '0') {
+      throw new Error('Refusing to delete the root folder');
+    }
+    await this.deleteFiles([this.normalizeFolderId(folderId)], isPublic);
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -398,21 +494,24 @@ export class CTFileClient {
 
   /**
    * Display upload progress with spinner
+   * @param getSent - Bytes of the file sent so far
    */
-  private startProgressDisplay(fileName: string, fileSize: number): () => void {
+  private startProgressDisplay(fileSize: number, getSent: () => number): () => void {
     const spinner = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
     let frame = 0;
     const startTime = Date.now();
 
     const interval = setInterval(() => {
       const elapsed = Date.now() - startTime;
-      const speed = (fileSize / elapsed) * 1000; // bytes per second
+      const sent = getSent();
+      const speed = elapsed > 0 ? (sent / elapsed) * 1000 : 0; // bytes per second
+      const percentage = fileSize > 0 ? ((sent / fileSize) * 100).toFixed(1) : '100.0';
 
       // Clear previous line and write new progress
       process.stdout.write('\r\x1b[K'); // Clear line
       process.stdout.write(
-        `  ${spinner[frame]} Uploading... ` +
-        `${formatBytes(fileSize)} | ` +
+        `  ${spinner[frame]} Uploading... ${percentage}% ` +
+        `(${formatBytes(sent)}/${formatBytes(fileSize)}) | ` +
         `Elapsed: ${formatDuration(elapsed)} | ` +
         `Speed: ${formatBytes(speed)}/s`
       );
@@ -420,20 +519,142 @@ export class CTFileClient {
       frame = (frame + 1) % spinner.length;
     }, 100);
 
-    // Return cleanup function
+    // Return cleanup function (safe to call more than once)
+    let stopped = false;
     return () => {
+      if (stopped) return;
+      stopped = true;
       clearInterval(interval);
       const elapsed = Date.now() - startTime;
-      const avgSpeed = (fileSize / elapsed) * 1000;
+      const avgSpeed = elapsed > 0 ? (getSent() / elapsed) * 1000 : 0;
       process.stdout.write('\r\x1b[K'); // Clear line
       console.log(
-        `  ✓ Upload completed in ${formatDuration(elapsed)} ` +
-        `(avg speed: ${formatBytes(avgSpeed)}/s)`
+        `  ✓ Upload finished in ${formatDuration(elapsed)} ` +
+        `(${formatBytes(getSent())}, avg speed: ${formatBytes(avgSpeed)}/s)`
       );
     };
   }
 
-  async uploadFile(folderId: string, filePath: string, isPublic: boolean = true): Promise<UploadedFile> {
+  /**
+   * Find a file that is already in a folder
+   * Used after a dropped upload: the server may have received the whole body
+   * before the connection broke
+   */
+  private async findUploadedFile(
+    folderId: string,
+    fileName: string,
+    fileSize: number,
+    isPublic: boolean
+  ): Promise<UploadedFile | null> {
+    for await (const entry of this.iterateFiles(folderId, isPublic)) {
+      if (entry.isFolder || entry.name !== fileName) continue;
+      if (entry.size !== undefined && entry.size !== fileSize) continue;
+
+      return {
+        fileName,
+        fileId: entry.id,
+        downloadUrl: entry.downloadUrl || `https://url88.ctfile.com/f/${entry.id}`,
+        shortUrl: entry.shortUrl,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * POST a file to an upload URL as a streamed multipart/form-data body
+   * Memory use stays at one read chunk regardless of file size, and the
+   * request is aborted when no data moves for UPLOAD_STALL_TIMEOUT
+   * @returns Parsed JSON response
+   */
+  private async postFile(uploadUrl: string, filePath: string, fileName: string, fileSize: number): Promise<any> {
+    let lastActivity = Date.now();
+    let sent = 0;
+
+    const multipart = createMultipartBody(
+      { name: fileName, filesize: fileSize.toString() },
+      'file',
+      filePath,
+      fileName,
+      bytes => {
+        sent = bytes;
+        lastActivity = Date.now();
+      }
+    );
+
+    // Abort on stalls instead of a fixed total timeout, so slow but steady uploads of large files succeed
+    const controller = new AbortController();
+    const stallCheck = setInterval(() => {
+      if (Date.now() - lastActivity > UPLOAD_STALL_TIMEOUT) {
+        controller.abort();
+      }
+    }, 1000);
+
+    const stopProgress = this.startProgressDisplay(fileSize, () => sent);
+
+    try {
+      console.log(`  📡 Starting HTTP upload to CTFile...`);
+      console.log(`  🌐 Upload URL: ${uploadUrl.substring(0, 50)}...`);
+
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': multipart.contentType,
+          'Content-Length': multipart.contentLength.toString(),
+        },
+        body: multipart.body,
+        signal: controller.signal,
+      });
+
+      stopProgress();
+      console.log(`  📥 Response status: ${response.status} ${response.statusText}`);
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error response');
+        throw new Error(`Upload failed: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      console.log(`  📦 Parsing response JSON...`);
+
+      // Get response text first to handle parsing errors
+      const responseText = await response.text();
+
+      try {
+        return JSON.parse(responseText);
+      } catch (parseError) {
+        console.error(`  ❌ Failed to parse JSON response`);
+        console.error(`  📄 Response preview (first 500 chars):`);
+        console.error(`     ${responseText.substring(0, 500)}`);
+        throw new Error(`Failed to parse JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+      }
+    } catch (error) {
+      stopProgress();
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(
+          `Upload stalled: no progress for ${UPLOAD_STALL_TIMEOUT / 1000}s ` +
+          `(${formatBytes(sent)}/${formatBytes(fileSize)} sent)`
+        );
+      }
+      throw error;
+    } finally {
+      clearInterval(stallCheck);
+    }
+  }
+
+  /**
+   * Upload a file to a folder
+   *
+   * CTFile's REST API hands out a single-request upload URL and has no
+   * chunked or ranged upload protocol, so a dropped upload can't continue
+   * mid-file. What survives a drop (and a restart) is the upload session in
+   * config/ctfile-upload-sessions.json:
+   * - before sending again, the folder is checked for the file, in case the
+   *   server received the whole body before the connection broke
+   * - the upload URL is reused while it is fresh instead of requesting a new one
+   *
+   * @param checksum Hex MD5 recorded at download time; computed once here if missing
+   */
+  async uploadFile(folderId: string, filePath: string, isPublic: boolean = true, checksum?: string): Promise<UploadedFile> {
     const fileName = basename(filePath);
     const file = Bun.file(filePath);
     const fileSize = file.size;
@@ -442,20 +663,26 @@ export class CTFileClient {
     console.log(`  📊 File size: ${formatBytes(fileSize)} (${fileSize} bytes)`);
     console.log(`  📁 Folder ID: ${folderId}`);
 
-    // Log system resources before upload
-    if (typeof process.memoryUsage === 'function') {
-      const mem = process.memoryUsage();
-      console.log(`  💾 Memory usage before upload:`);
-      console.log(`     RSS: ${formatBytes(mem.rss)}`);
-      console.log(`     Heap Used: ${formatBytes(mem.heapUsed)} / ${formatBytes(mem.heapTotal)}`);
-      console.log(`     External: ${formatBytes(mem.external)}`);
-    }
-
     // Check minimum file size
     if (fileSize < 100) {
       throw new Error('CTFile does not support files smaller than 100 bytes');
     }
 
+    // Hash once up front instead of on every retry
+    if (!checksum) {
+      checksum = (await hashFile(filePath)).md5;
+    }
+
+    // Sessions left by an earlier run only apply to the same file
+    const sessionKey = `${this.normalizeFolderId(folderId)}/${fileName}`;
+    let session: UploadSession | undefined = (await loadUploadSessions())[sessionKey];
+    if (session && (session.checksum !== checksum || session.size !== fileSize)) {
+      session = undefined;
+    }
+    if (session) {
+      console.log(`  ♻️  Found upload session from ${session.createdAt} (the file is sent again from the start)`);
+    }
+
     // Retry logic
     let lastError: Error | null = null;
 
@@ -466,116 +693,67 @@ export class CTFileClient {
           await this.sleep(this.retryDelay * attempt); // Exponential backoff
         }
 
-        // Get upload URL
-        const uploadUrl = await this.getUploadUrl(folderId, filePath, isPublic);
-
-        // Create form data with streaming file
-        // Bun.file supports streaming, so no need to load entire file to memory
-        const formData = new FormData();
-        formData.append('name', fileName);
-        formData.append('filesize', fileSize.toString());
-        formData.append('file', file, fileName);
-
-        // Start progress display
-        const stopProgress = this.startProgressDisplay(fileName, fileSize);
-
-        try {
-          // Upload file with timeout (60 minutes for large files)
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 60 * 60 * 1000);
-
-          console.log(`  📡 Starting HTTP upload to CTFile...`);
-          console.log(`  🌐 Upload URL: ${uploadUrl.substring(0, 50)}...`);
-
-          // Log memory before upload
-          const memBefore = process.memoryUsage();
-          console.log(`  💾 Memory before upload: RSS=${formatBytes(memBefore.rss)}, Heap=${formatBytes(memBefore.heapUsed)}`);
-
-          const uploadStartTime = Date.now();
-
-          const response = await fetch(uploadUrl, {
-            method: 'POST',
-            body: formData,
-            signal: controller.signal,
-            // @ts-ignore - Bun-specific options
-            keepalive: true,
-          });
-
-          clearTimeout(timeoutId);
-
-          const uploadDuration = Date.now() - uploadStartTime;
-          console.log(`  ⏱️  Upload request completed in ${(uploadDuration / 1000).toFixed(2)}s`);
-          console.log(`  📥 Response status: ${response.status} ${response.statusText}`);
-
-          // Log memory after upload
-          const memAfter = process.memoryUsage();
-          console.log(`  💾 Memory after upload: RSS=${formatBytes(memAfter.rss)}, Heap=${formatBytes(memAfter.heapUsed)}`);
-          console.log(`  📈 Memory delta: RSS=${formatBytes(memAfter.rss - memBefore.rss)}, Heap=${formatBytes(memAfter.heapUsed - memBefore.heapUsed)}`);
-
-          if (!response.ok) {
-            const errorText = await response.text().catch(() => 'Unable to read error response');
-            throw new Error(`Upload failed: ${response.status} ${response.statusText} - ${errorText}`);
+        // A previous attempt may have completed on the server side
+        if (session) {
+          console.log(`  🔍 Checking whether a previous attempt already completed...`);
+          const existing = await this.findUploadedFile(folderId, fileName, fileSize, isPublic);
+          if (existing) {
+            console.log(`  ✓ File already in folder, skipping upload (ID: ${existing.fileId})`);
+            await updateUploadSession(sessionKey, undefined);
+            return existing;
           }
+        }
 
-          console.log(`  📦 Parsing response JSON...`);
+        // Reuse a fresh upload URL, otherwise request a new one
+        if (!session?.uploadUrl || Date.now() - Date.parse(session.createdAt) > UPLOAD_SESSION_TTL) {
+          const uploadUrl = await this.getUploadUrl(folderId, filePath, checksum, isPublic);
+          session = { uploadUrl, checksum, size: fileSize, createdAt: new Date().toISOString() };
+        } else {
+          console.log(`  ♻️  Reusing upload URL`);
+        }
+        await updateUploadSession(sessionKey, session);
 
-          // Get response text first to handle parsing errors
-          const responseText = await response.text();
-          let result: any;
+        const uploadStartTime = Date.now();
+        let result: any;
 
-          try {
-            result = JSON.parse(responseText);
-          } catch (parseError) {
-            console.error(`  ❌ Failed to parse JSON response`);
-            console.error(`  📄 Response preview (first 500 chars):`);
-            console.error(`     ${responseText.substring(0, 500)}`);
-            throw new Error(`Failed to parse JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+        try {
+          result = await this.postFile(session.uploadUrl, filePath, fileName, fileSize);
+        } catch (error) {
+          // Rejected by the upload server: the URL is likely expired or used up
+          if (error instanceof Error && /^Upload failed: 4\d\d/.test(error.message)) {
+            session.uploadUrl = '';
+            await updateUploadSession(sessionKey, session);
           }
+          throw error;
+        }
 
-          // Stop progress display
-          stopProgress();
+        const uploadDuration = Date.now() - uploadStartTime;
+        console.log(`  ⏱️  Upload request completed in ${(uploadDuration / 1000).toFixed(2)}s`);
 
-          // Log the parsed result for debugging
-          console.log(`  📋 Upload response:`, JSON.stringify(result).substring(0, 200));
+        // Log the parsed result for debugging
+        console.log(`  📋 Upload response:`, JSON.stringify(result).substring(0, 200));
 
-          const fileId = result.id?.toString() || result.file_id?.toString() || '';
+        const fileId = result.id?.toString() || result.file_id?.toString() || '';
 
-          if (!fileId) {
-            console.error(`  ⚠️  Response missing file ID. Full response:`, JSON.stringify(result, null, 2));
-            throw new Error('No file ID returned from upload');
-          }
+        if (!fileId) {
+          console.error(`  ⚠️  Response missing file ID. Full response:`, JSON.stringify(result, null, 2));
+          throw new Error('No file ID returned from upload');
+        }
 
-          console.log(`  ✓ Upload succeeded on attempt ${attempt}`);
-          console.log(`  🆔 File ID: ${fileId}`);
+        console.log(`  ✓ Upload succeeded on attempt ${attempt}`);
+        console.log(`  🆔 File ID: ${fileId}`);
+        await updateUploadSession(sessionKey, undefined);
 
-          // Get file download URL
-          console.log(`  🔗 Fetching download URL...`);
-          const fileInfo = await this.getFileInfo(fileId, folderId, fileName, isPublic);
+        // Get file download URL
+        console.log(`  🔗 Fetching download URL...`);
+        const fileInfo = await this.getFileInfo(fileId, folderId, fileName, isPublic);
 
-          return {
-            fileName,
-            fileId,
-            downloadUrl: fileInfo.downloadUrl,
-            shortUrl: fileInfo.shortUrl,
-          };
-        } catch (error) {
-          // Stop progress display on error
-          stopProgress();
-
-          // Log detailed error information
-          console.error(`  ❌ Upload error details:`);
-          if (error instanceof Error) {
-            console.error(`     Name: ${error.name}`);
-            console.error(`     Message: ${error.message}`);
-            console.error(`     Stack: ${error.stack?.split('\n')[0]}`);
-
-            if (error.name === 'AbortError') {
-              throw new Error(`Upload timeout after 60 minutes`);
-            }
-            throw error;
-          }
-          throw error;
-        }
+        return {
+          fileName,
+          fileId,
+          downloadUrl: fileInfo.downloadUrl,
+          shortUrl: fileInfo.shortUrl,
+        };
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -588,7 +766,131 @@ export class CTFileClient {
       }
     }
 
-    // If we get here, all retries failed
+    // If we get here, all retries failed; the session is kept for the next run
     throw new Error(`Upload failed after ${this.maxRetries} attempts: ${lastError?.message || 'Unknown error'}`);
   }
 }
+
+/**
+ * Build a multipart/form-data body that streams a file from disk
+ * The total length is known up front, so the request is sent with
+ * Content-Length instead of chunked transfer encoding
+ *
+ * @param onProgress - Called with the number of file bytes handed to the request
+ */
+function createMultipartBody(
+  fields: Record<string, string>,
+  fileField: string,
+  filePath: string,
+  fileName: string,
+  onProgress: (bytesSent: number) => void
+): { body: ReadableStream<Uint8Array>; contentType: string; contentLength: number } {
+  const boundary = `----qnap-sync-${crypto.randomUUID()}`;
+  const encoder = new TextEncoder();
+  const escapeName = (value: string) => value.replace(/"/g, '%22').replace(/\r?\n/g, ' ');
+
+  const fieldParts = Object.entries(fields).map(([name, value]) =>
+    `--${boundary}\r\nContent-Disposition: form-data; name="${escapeName(name)}"\r\n\r\n${value}\r\n`
+  );
+  const head = encoder.encode(
+    fieldParts.join('') +
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="${escapeName(fileField)}"; filename="${escapeName(fileName)}"\r\n` +
+    `Content-Type: application/octet-stream\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const file = Bun.file(filePath);
+  const fileSize = file.size;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  let stage: 'head' | 'file' | 'tail' | 'done' = 'head';
+  let sent = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (stage === 'head') {
+        stage = 'file';
+        controller.enqueue(head);
+        return;
+      }
+
+      if (stage === 'file') {
+        if (!reader) {
+          reader = file.stream().getReader() as ReadableStreamDefaultReader<Uint8Array>;
+        }
+        const { done, value } = await reader.read();
+        if (!done) {
+          sent += value.length;
+          onProgress(sent);
+          controller.enqueue(value);
+          return;
+        }
+
+        if (sent !== fileSize) {
+          controller.error(new Error(`File changed during upload: read ${sent} of ${fileSize} bytes`));
+          return;
+        }
+        stage = 'tail';
+      }
+
+      if (stage === 'tail') {
+        stage = 'done';
+        controller.enqueue(tail);
+      }
+      controller.close();
+    },
+    async cancel() {
+      await reader?.cancel();
+    },
+  });
+
+  return {
+    body,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: head.length + fileSize + tail.length,
+  };
+}
+
+/**
+ * Load upload sessions left by interrupted uploads
+ */
+async function loadUploadSessions(): Promise<Record<string, UploadSession>> {
+  const file = Bun.file(UPLOAD_SESSIONS_FILE);
+  if (!await file.exists()) {
+    return {};
+  }
+
+  try {
+    return await file.json();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Serializes session file updates from concurrent uploads
+ */
+let sessionWrites: Promise<void> = Promise.resolve();
+
+/**
+ * Store or remove (session undefined) an upload session
+ */
+function updateUploadSession(key: string, session: UploadSession | undefined): Promise<void> {
+  sessionWrites = sessionWrites.then(async () => {
+    try {
+      const sessions = await loadUploadSessions();
+      if (session) {
+        sessions[key] = session;
+      } else if (key in sessions) {
+        delete sessions[key];
+      } else {
+        return;
+      }
+
+      await writeFileAtomic(UPLOAD_SESSIONS_FILE, JSON.stringify(sessions, null, 2));
+    } catch (error) {
+      console.warn(`  ⚠ Failed to save upload session: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  return sessionWrites;
+}
@@ -3,18 +3,52 @@
  *
  * Features:
  * - Stream-based downloads with progress tracking
- * - Signature verification
+ * - Signature verification with off/warn/strict policy and quarantine
  * - Proper file naming from URLs
- * - Resume support
+ * - Resume support (HTTP Range on .part files, across retries and runs)
  * - Concurrent downloads (default: 5)
+ * - Local retention and disk budget (DOWNLOADS_* variables, see downloads-retention.ts)
+ * - QPKG inspection: embedded name/version cross-checked with apps.json (QPKG_INSPECT)
  */
 
-import { join } from 'path';
-import { createHash } from 'crypto';
+import { basename, join } from 'path';
+import { open, rename, rm, stat } from 'fs/promises';
 import { formatBytes, formatTime } from './utils/format';
 import { promiseWithConcurrency } from './utils/concurrency';
-import { ensureDir, getFilenameFromUrl } from './utils/file';
-import type { Platform, AppItem, AppsConfig, PackageMetadata, DownloadOptions, DownloadResult } from './types';
+import { ensureDir, getFilenameFromUrl, writeFileAtomic } from './utils/file';
+import { DigestHasher, hashFileInto, hashFile, type FileDigests } from './utils/hash';
+import { checkSignature, getSignaturePolicy, logSignatureCheck } from './signature';
+import { quarantinePackage } from './quarantine';
+import { checkQpkgInfo, inspectPackageFile, isQpkgInspectionEnabled } from './qpkg';
+import {
+  fetchLastModified,
+  getRecordedPublishedDate,
+  needsLastModified,
+  resolvePublishedDate,
+  type PublishedDate,
+} from './publish-date';
+import { writeJsonState } from './ledger';
+import {
+  cleanDownloads,
+  describeDownloadsPolicy,
+  getDownloadsPolicy,
+  isUploadConfirmed,
+  loadUploadProgress,
+  touchDownload,
+  DiskSpaceGuard,
+  InsufficientSpaceError,
+} from './downloads-retention';
+import type {
+  Platform,
+  AppItem,
+  AppsConfig,
+  PackageMetadata,
+  DownloadOptions,
+  DownloadResult,
+  SignatureCheck,
+  SignaturePolicy,
+  UploadProgress,
+} from './types';
 
 /**
  * Default concurrent download limit
@@ -23,169 +57,465 @@ import type { Platform, AppItem, AppsConfig, PackageMetadata, DownloadOptions, D
 const DEFAULT_DOWNLOAD_CONCURRENCY = 5;
 
 /**
- * Verify file signature (MD5 hash comparison)
- * The signature in apps.json is base64-encoded MD5 hash
+ * Apply the signature policy to a downloaded package
+ * Under the strict policy, mismatching packages are moved to quarantine
+ *
+ * @returns true if the package may be kept, false if it was quarantined
+ */
+async function enforceSignaturePolicy(
+  app: AppItem,
+  platform: Platform,
+  filePath: string,
+  check: SignatureCheck,
+  policy: SignaturePolicy
+): Promise<boolean> {
+  if (check.status !== 'mismatch') {
+    return true;
+  }
+
+  if (policy !== 'strict') {
+    console.log('  ⚠ Keeping package despite signature mismatch (SIGNATURE_POLICY=warn)');
+    return true;
+  }
+
+  const quarantinedPath = await quarantinePackage(filePath, {
+    filename: getFilenameFromUrl(platform.location),
+    productName: app.name,
+    version: app.version,
+    architecture: platform.platformID,
+    downloadUrl: platform.location,
+    signature: platform.signature,
+    check,
+    quarantinedDate: new Date().toISOString(),
+  });
+  console.log(`  ⛔ Quarantined: ${quarantinedPath}`);
+  return false;
+}
+
+/**
+ * Load existing metadata.json indexed by filename
+ * Used to reuse checksums of files that are already on disk
  */
-async function verifySignature(filePath: string, expectedSignature: string): Promise<boolean> {
+async function loadMetadataIndex(metadataPath: string): Promise<Map<string, PackageMetadata>> {
+  const index = new Map<string, PackageMetadata>();
+  const file = Bun.file(metadataPath);
+  if (!await file.exists()) {
+    return index;
+  }
+
   try {
-    const file = Bun.file(filePath);
-    const buffer = await file.arrayBuffer();
-
-    // Calculate MD5 hash
-    const hash = createHash('md5');
-    hash.update(Buffer.from(buffer));
-    const md5Base64 = hash.digest('base64');
-
-    // QNAP signature appears to be a truncated or full base64 MD5
-    // Compare in multiple ways to handle different formats
-    const signatureMatch =
-      md5Base64 === expectedSignature ||
-      md5Base64.startsWith(expectedSignature) ||
-      expectedSignature === md5Base64.slice(0, expectedSignature.length);
-
-    if (!signatureMatch) {
-      console.log(`  ℹ Calculated MD5 (base64): ${md5Base64}`);
-      console.log(`  ℹ Expected signature: ${expectedSignature}`);
+    const metadata: PackageMetadata[] = await file.json();
+    for (const meta of metadata) {
+      index.set(meta.filename, meta);
     }
+  } catch {
+    console.log('⚠ Failed to read existing metadata, checksums will be recomputed');
+  }
 
-    return signatureMatch;
-  } catch (error) {
-    console.error(`  ⚠ Signature verification failed: ${error}`);
-    return false;
+  return index;
+}
+
+/**
+ * Get checksums for a file that is already on disk
+ * Reuses digests recorded in metadata when the file size still matches,
+ * so each file is hashed only once
+ */
+async function getExistingFileDigests(
+  filePath: string,
+  fileSize: number,
+  previous: PackageMetadata | undefined
+): Promise<FileDigests> {
+  if (previous?.md5 && previous.sha256 && previous.fileSize === fileSize) {
+    return { md5: previous.md5, sha256: previous.sha256 };
   }
+
+  console.log('  🔐 Computing checksums...');
+  return await hashFile(filePath);
+}
+
+/**
+ * Get the publish date of a package: feed date, then Last-Modified, then now
+ *
+ * A date recorded for the same file and signature is kept unless a better
+ * source is available. For files already on disk the Last-Modified header is
+ * fetched with a HEAD request when it could improve the date.
+ *
+ * @param result - Result of the download, if the file was just downloaded
+ */
+async function getPackagePublishedDate(
+  app: AppItem,
+  platform: Platform,
+  previous: PackageMetadata | undefined,
+  result?: DownloadResult
+): Promise<PublishedDate> {
+  const recorded = getRecordedPublishedDate(getFilenameFromUrl(platform.location), platform.signature, previous);
+
+  let lastModified = result?.lastModified;
+  if (!result && needsLastModified(app, recorded)) {
+    lastModified = await fetchLastModified(platform.location);
+  }
+
+  return resolvePublishedDate(app, recorded, lastModified, new Date().toISOString());
+}
+
+/**
+ * Inspect a package and cross-check its contents with its apps.json entry
+ * Reuses the contents recorded in metadata while the file size still matches,
+ * but always checks them against the current entry
+ *
+ * @returns Fields to add to the package metadata
+ */
+async function inspectDownloadedPackage(
+  app: AppItem,
+  filePath: string,
+  fileSize: number,
+  previous: PackageMetadata | undefined
+): Promise<Pick<PackageMetadata, 'qpkg' | 'qpkgIssues'>> {
+  if (!isQpkgInspectionEnabled()) {
+    return {};
+  }
+
+  const expected = { name: app.internalName || app.name, version: app.version, filename: basename(filePath) };
+  let result: { qpkg?: PackageMetadata['qpkg']; issues: string[] };
+
+  if (previous?.fileSize === fileSize && previous.qpkg) {
+    result = { qpkg: previous.qpkg, issues: checkQpkgInfo(previous.qpkg, expected) };
+  } else if (previous?.fileSize === fileSize && previous.qpkgIssues) {
+    result = { issues: previous.qpkgIssues };
+  } else {
+    console.log('  🔍 Inspecting package contents...');
+    result = await inspectPackageFile(filePath, expected);
+  }
+
+  for (const issue of result.issues) {
+    console.log(`  ⚠ ${issue}`);
+  }
+
+  return { qpkg: result.qpkg, qpkgIssues: result.issues.length > 0 ? result.issues : undefined };
+}
+
+/**
+ * Suffix for in-progress downloads
+ * Data is written to `<file>.part` and only renamed into place once complete
+ */
+const PART_FILE_SUFFIX = '.part';
+
+/**
+ * Resume state stored next to a .part file (`<file>.part.json`)
+ * Keeps the validators needed for a safe If-Range request across runs
+ */
+interface PartFileState {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  totalBytes?: number;
+}
+
+/**
+ * Load resume state for a .part file, ignoring state recorded for another URL
+ */
+async function loadPartState(statePath: string, url: string): Promise<PartFileState | null> {
+  const file = Bun.file(statePath);
+  if (!await file.exists()) {
+    return null;
+  }
+
+  try {
+    const state: PartFileState = await file.json();
+    return state.url === url ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the current size of a .part file (0 if it doesn't exist)
+ */
+async function getPartSize(partPath: string): Promise<number> {
+  try {
+    return (await stat(partPath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Remove a .part file and its resume state
+ */
+async function discardPartFile(partPath: string, statePath: string): Promise<void> {
+  await rm(partPath, { force: true });
+  await rm(statePath, { force: true });
+}
+
+/**
+ * Parse a Content-Range header (e.g. "bytes 100-199/1000")
+ * 416 responses use "*" in place of the range
+ */
+function parseContentRange(header: string | null): { start?: number; end?: number; total?: number } | null {
+  if (!header) return null;
+
+  const match = header.match(/^bytes\s+(?:(\d+)-(\d+)|\*)\/(\d+|\*)$/i);
+  if (!match) return null;
+
+  return {
+    start: match[1] !== undefined ? parseInt(match[1], 10) : undefined,
+    end: match[2] !== undefined ? parseInt(match[2], 10) : undefined,
+    total: match[3] !== '*' ? parseInt(match[3], 10) : undefined,
+  };
+}
+
+/**
+ * Get a validator usable with If-Range
+ * Weak ETags are not allowed in If-Range, so fall back to Last-Modified
+ */
+function getIfRangeValidator(state: PartFileState): string | undefined {
+  if (state.etag && !state.etag.startsWith('W/')) {
+    return state.etag;
+  }
+  return state.lastModified;
 }
 
 /**
  * Download file with streaming and progress tracking
+ *
+ * Data is written to `<outputPath>.part`. When a .part file from an earlier
+ * attempt (or an earlier run) exists, the download resumes with Range/If-Range.
+ * The file is renamed to `outputPath` only after all bytes have arrived, so an
+ * interrupted download never leaves a truncated package in place.
+ *
+ * MD5/SHA-256 are computed while bytes stream to disk, so the file is never
+ * read back into memory for verification.
  */
 async function downloadFile(options: DownloadOptions): Promise<DownloadResult> {
   const {
     url,
     outputPath,
     signature,
+    signaturePolicy = 'warn',
     headers = {},
     maxRetries = 3,
     showProgress = true,
+    reserveSpace,
   } = options;
 
+  const partPath = `${outputPath}${PART_FILE_SUFFIX}`;
+  const statePath = `${partPath}.json`;
+
   let retries = 0;
   let lastError: Error | null = null;
 
+  // Hasher survives retries: when a retry resumes exactly where hashing
+  // stopped, the bytes already on disk don't need to be read again
+  let hasher = new DigestHasher();
+
   while (retries <= maxRetries) {
-    try {
-      // Make the request
-      const response = await fetch(url, { headers });
+    let releaseSpace: (() => void) | undefined;
+    let lastModified: string | undefined;
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    try {
+      // Check for a partial download we can resume
+      const partState = await loadPartState(statePath, url);
+      let resumeFrom = await getPartSize(partPath);
+      const ifRange = partState ? getIfRangeValidator(partState) : undefined;
+
+      if (resumeFrom > 0 && !ifRange) {
+        // Without a validator we can't be sure the remote file is unchanged
+        console.log('  ⚠ Partial download has no validator, restarting from zero...');
+        await discardPartFile(partPath, statePath);
+        resumeFrom = 0;
       }
 
-      // Get total size
-      const contentLength = response.headers.get('content-length');
-      const totalBytes = contentLength ? parseInt(contentLength, 10) : 0;
+      const requestHeaders: Record<string, string> = { ...headers };
+      if (resumeFrom > 0 && ifRange) {
+        requestHeaders['Range'] = `bytes=${resumeFrom}-`;
+        requestHeaders['If-Range'] = ifRange;
+        console.log(`  ↻ Resuming from ${formatBytes(resumeFrom)}...`);
+      }
 
-      if (!response.body) {
-        throw new Error('Response body is null');
+      // Bring the hasher in line with the bytes already in the .part file
+      if (hasher.bytesHashed !== resumeFrom) {
+        hasher = new DigestHasher();
+        if (resumeFrom > 0) {
+          await hashFileInto(hasher, partPath);
+        }
       }
 
-      // Create write stream
-      const file = Bun.file(outputPath);
-      const writer = file.writer();
-
-      let downloadedBytes = 0;
-      const startTime = Date.now();
-      let lastProgressTime = startTime;
-      let lastDownloadedBytes = 0;
-      let lastProgressUpdate = 0;
-
-      // Stream the response
-      const reader = response.body.getReader();
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-
-          if (done) break;
-
-          // Write chunk immediately (streaming)
-          writer.write(value);
-          downloadedBytes += value.length;
-
-          // Update progress
-          const now = Date.now();
-          const timeDiff = (now - lastProgressTime) / 1000;
-
-          if (showProgress && totalBytes > 0 && now - lastProgressUpdate > 100) {
-            const percentage = (downloadedBytes / totalBytes) * 100;
-            const bytesInPeriod = downloadedBytes - lastDownloadedBytes;
-            const speed = timeDiff > 0 ? bytesInPeriod / timeDiff : 0;
-            const eta = speed > 0 ? (totalBytes - downloadedBytes) / speed : Infinity;
-
-            // Print progress bar
-            const barLength = 30;
-            const filledLength = Math.round((barLength * downloadedBytes) / totalBytes);
-            const bar = '█'.repeat(filledLength) + '░'.repeat(barLength - filledLength);
-
-            process.stdout.write(
-              `\r  [${bar}] ${percentage.toFixed(1)}% | ` +
-              `${formatBytes(downloadedBytes)}/${formatBytes(totalBytes)} | ` +
-              `${formatBytes(speed)}/s | ETA: ${formatTime(eta)}`
-            );
-
-            lastProgressUpdate = now;
-            lastProgressTime = now;
-            lastDownloadedBytes = downloadedBytes;
+      // Make the request
+      const response = await fetch(url, { headers: requestHeaders });
+
+      // 416: the .part file already holds every byte (or more than the remote file)
+      if (response.status === 416 && resumeFrom > 0) {
+        const range = parseContentRange(response.headers.get('content-range'));
+        if (range?.total !== undefined && range.total === resumeFrom) {
+          console.log('  ✓ Partial download is already complete');
+          lastModified = partState?.lastModified;
+        } else {
+          await discardPartFile(partPath, statePath);
+          throw new Error('Requested range not satisfiable, discarded partial download');
+        }
+      } else {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        if (!response.body) {
+          throw new Error('Response body is null');
+        }
+
+        const contentLength = response.headers.get('content-length');
+        const bodyBytes = contentLength ? parseInt(contentLength, 10) : 0;
+        let totalBytes = 0;
+
+        if (response.status === 206) {
+          // Server honoured the range: it must start exactly where the .part file ends
+          const range = parseContentRange(response.headers.get('content-range'));
+          if (!range || range.start !== resumeFrom) {
+            await response.body.cancel();
+            await discardPartFile(partPath, statePath);
+            throw new Error(`Unexpected Content-Range: ${response.headers.get('content-range')}`);
+          }
+          totalBytes = range.total ?? (bodyBytes > 0 ? resumeFrom + bodyBytes : 0);
+        } else {
+          // 200: full body (no range requested, or the remote file changed)
+          if (resumeFrom > 0) {
+            console.log('  ⚠ Server sent the full file (remote changed or range unsupported), restarting...');
           }
+          resumeFrom = 0;
+          totalBytes = bodyBytes;
+          hasher = new DigestHasher();
         }
 
-        // Flush and close writer
-        await writer.end();
+        // Make sure the rest of the file fits before writing anything
+        if (reserveSpace) {
+          try {
+            releaseSpace = await reserveSpace(totalBytes > 0 ? totalBytes - resumeFrom : 0);
+          } catch (error) {
+            await response.body.cancel();
+            throw error;
+          }
+        }
+
+        // Remember validators so the next attempt (or run) can resume safely
+        const newState: PartFileState = {
+          url,
+          etag: response.headers.get('etag') || partState?.etag,
+          lastModified: response.headers.get('last-modified') || partState?.lastModified,
+          totalBytes: totalBytes || undefined,
+        };
+        await writeFileAtomic(statePath, JSON.stringify(newState, null, 2));
+        lastModified = newState.lastModified;
+
+        // Append when resuming, truncate otherwise
+        const handle = await open(partPath, resumeFrom > 0 ? 'a' : 'w');
+
+        let downloadedBytes = resumeFrom;
+        const startTime = Date.now();
+        let lastProgressTime = startTime;
+        let lastDownloadedBytes = downloadedBytes;
+        let lastProgressUpdate = 0;
+
+        // Stream the response
+        const reader = response.body.getReader();
+
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+
+            if (done) break;
+
+            // Write chunk immediately (streaming)
+            await handle.write(value);
+            hasher.update(value);
+            downloadedBytes += value.length;
+
+            // Update progress
+            const now = Date.now();
+            const timeDiff = (now - lastProgressTime) / 1000;
+
+            if (showProgress && totalBytes > 0 && now - lastProgressUpdate > 100) {
+              const percentage = (downloadedBytes / totalBytes) * 100;
+              const bytesInPeriod = downloadedBytes - lastDownloadedBytes;
+              const speed = timeDiff > 0 ? bytesInPeriod / timeDiff : 0;
+              const eta = speed > 0 ? (totalBytes - downloadedBytes) / speed : Infinity;
+
+              // Print progress bar
+              const barLength = 30;
+              const filledLength = Math.min(barLength, Math.round((barLength * downloadedBytes) / totalBytes));
+              const bar = '█'.repeat(filledLength) + '░'.repeat(barLength - filledLength);
+
+              process.stdout.write(
+                `\r  [${bar}] ${percentage.toFixed(1)}% | ` +
+                `${formatBytes(downloadedBytes)}/${formatBytes(totalBytes)} | ` +
+                `${formatBytes(speed)}/s | ETA: ${formatTime(eta)}`
+              );
+
+              lastProgressUpdate = now;
+              lastProgressTime = now;
+              lastDownloadedBytes = downloadedBytes;
+            }
+          }
+        } finally {
+          await handle.close();
+        }
 
         if (showProgress) {
           process.stdout.write('\n');
         }
 
         const totalTime = (Date.now() - startTime) / 1000;
-        const avgSpeed = downloadedBytes / totalTime;
+        const transferredBytes = downloadedBytes - resumeFrom;
+        const avgSpeed = totalTime > 0 ? transferredBytes / totalTime : 0;
 
         if (showProgress) {
           console.log(
-            `  ✓ Downloaded ${formatBytes(downloadedBytes)} in ${formatTime(totalTime)} ` +
+            `  ✓ Downloaded ${formatBytes(transferredBytes)} in ${formatTime(totalTime)} ` +
             `(avg: ${formatBytes(avgSpeed)}/s)`
           );
         }
 
-        // Verify signature
-        console.log('  🔐 Verifying signature...');
-        const verified = await verifySignature(outputPath, signature);
-
-        if (verified) {
-          console.log('  ✓ Signature verified');
-        } else {
-          console.log('  ⚠ Signature verification skipped (format may vary)');
-          // Don't fail on signature mismatch for now
+        // Keep the .part file for the next attempt if the body was cut short
+        if (totalBytes > 0 && downloadedBytes !== totalBytes) {
+          throw new Error(`Incomplete download: got ${downloadedBytes} of ${totalBytes} bytes`);
         }
-
-        return {
-          success: true,
-          filePath: outputPath,
-          fileSize: downloadedBytes,
-          verified,
-        };
-
-      } catch (error) {
-        writer.end();
-        throw error;
       }
 
+      // All bytes are on disk: move the file into place
+      await rename(partPath, outputPath);
+      await rm(statePath, { force: true });
+      const fileSize = await getPartSize(outputPath);
+      const digests = hasher.digest();
+
+      // Verify signature
+      console.log('  🔐 Verifying signature...');
+      const signatureCheck = checkSignature(digests, signature, signaturePolicy);
+      logSignatureCheck(signatureCheck);
+
+      return {
+        success: true,
+        filePath: outputPath,
+        fileSize,
+        verified: signatureCheck.status === 'verified',
+        signatureCheck,
+        md5: digests.md5,
+        sha256: digests.sha256,
+        lastModified,
+      };
+
     } catch (error) {
       lastError = error as Error;
       retries++;
 
+      // Retrying won't free any space
+      if (error instanceof InsufficientSpaceError) {
+        break;
+      }
+
       if (retries <= maxRetries) {
         console.log(`  ⚠ Download failed, retrying (${retries}/${maxRetries})...`);
         await new Promise(resolve => setTimeout(resolve, 1000 * retries));
       }
+    } finally {
+      releaseSpace?.();
     }
   }
 
@@ -198,6 +528,62 @@ async function downloadFile(options: DownloadOptions): Promise<DownloadResult> {
   };
 }
 
+/**
+ * Apply the downloads policy before a run and set up the disk space guard
+ */
+async function prepareDownloads(outputDir: string): Promise<{ guard: DiskSpaceGuard; progress: UploadProgress }> {
+  const policy = getDownloadsPolicy();
+  console.log(`Downloads policy: ${describeDownloadsPolicy(policy)}`);
+
+  for (const { file, reason } of await cleanDownloads(outputDir, policy)) {
+    console.log(`  🗑  Removed ${file.filename} (${formatBytes(file.size)}): ${reason}`);
+  }
+  console.log('');
+
+  const progress = await loadUploadProgress();
+  return { guard: new DiskSpaceGuard(outputDir, policy, progress), progress };
+}
+
+/**
+ * Whether a file missing from downloads/ was removed after a confirmed upload
+ * (retention), so it doesn't need to be fetched again
+ */
+function skipUploadedDownload(progress: UploadProgress, filename: string, platform: Platform): boolean {
+  if (!isUploadConfirmed(progress[filename], platform.signature)) {
+    return false;
+  }
+  console.log('  ⏭  Already uploaded, skipping download...');
+  return true;
+}
+
+/**
+ * Save metadata.json and record the run's packages in the ledger
+ *
+ * Quarantined files and files the disk space guard evicted during the run are
+ * left out, unless an evicted file was downloaded again later in the run.
+ */
+async function saveDownloadMetadata(
+  metadataPath: string,
+  metadata: Iterable<PackageMetadata>,
+  packagesMetadata: PackageMetadata[],
+  guard: DiskSpaceGuard,
+  quarantinedFiles: string[]
+): Promise<PackageMetadata[]> {
+  const recorded = new Set(packagesMetadata.map(meta => meta.filename));
+  const removed = new Set([
+    ...quarantinedFiles,
+    ...[...guard.evicted].filter(filename => !recorded.has(filename)),
+  ]);
+
+  const saved = [...metadata].filter(meta => !removed.has(meta.filename));
+  await writeJsonState(metadataPath, saved, ledger => {
+    ledger.recordDownloaded(packagesMetadata);
+    ledger.saveSnapshot('metadata.json', saved);
+  });
+  console.log(`\n📝 Metadata saved to: ${metadataPath}`);
+  return saved;
+}
+
 /**
  * Download all apps from config/apps.json
  */
@@ -220,16 +606,21 @@ export async function downloadAllApps(
   const concurrency = process.env.DOWNLOAD_CONCURRENCY
     ? parseInt(process.env.DOWNLOAD_CONCURRENCY, 10)
     : DEFAULT_DOWNLOAD_CONCURRENCY;
+  const signaturePolicy = getSignaturePolicy();
 
   console.log(`Found ${apps.length} apps in config`);
-  console.log(`Download concurrency: ${concurrency}\n`);
+  console.log(`Download concurrency: ${concurrency}`);
+  console.log(`Signature policy: ${signaturePolicy}\n`);
 
   // Create output directory
   await ensureDir(outputDir);
+  const { guard, progress } = await prepareDownloads(outputDir);
 
   let totalDownloaded = 0;
   let totalFailed = 0;
   let totalSkipped = 0;
+  const quarantinedFiles: string[] = [];
+  const flaggedFiles: string[] = [];
 
   // Track downloaded files to avoid duplicates
   const downloadedFiles = new Set<string>();
@@ -237,6 +628,10 @@ export async function downloadAllApps(
   // Collect metadata for all downloaded packages
   const packagesMetadata: PackageMetadata[] = [];
 
+  // Previous metadata, used to reuse checksums of files already on disk
+  const metadataPath = join(process.cwd(), 'config', 'metadata.json');
+  const previousMetadata = await loadMetadataIndex(metadataPath);
+
   // Collect all download tasks
   interface DownloadTask {
     app: AppItem;
@@ -275,12 +670,28 @@ export async function downloadAllApps(
     console.log(`\n[${taskIndex + 1}/${downloadTasks.length}] ${app.name} v${app.version} - ${platform.platformID}`);
     console.log(`  URL: ${platform.location}`);
     console.log(`  File: ${filename}`);
+    guard.markUsed(filename);
 
     // Check if file already exists
     const existingFile = Bun.file(outputPath);
     if (await existingFile.exists()) {
       const existingFileSize = existingFile.size;
       console.log('  ⏭  File already exists, skipping download...');
+      await touchDownload(outputPath);
+      const digests = await getExistingFileDigests(outputPath, existingFileSize, previousMetadata.get(filename));
+      const signatureCheck = checkSignature(digests, platform.signature, signaturePolicy);
+      logSignatureCheck(signatureCheck);
+
+      if (!await enforceSignaturePolicy(app, platform, outputPath, signatureCheck, signaturePolicy)) {
+        quarantinedFiles.push(filename);
+        return { success: false, skipped: false };
+      }
+
+      const inspection = await inspectDownloadedPackage(app, outputPath, existingFileSize, previousMetadata.get(filename));
+      const published = await getPackagePublishedDate(app, platform, previousMetadata.get(filename));
+      if (inspection.qpkgIssues) {
+        flaggedFiles.push(filename);
+      }
 
       // Add metadata for existing file
       packagesMetadata.push({
@@ -290,27 +701,51 @@ export async function downloadAllApps(
         filename: filename,
         fileSize: existingFileSize,
         downloadUrl: platform.location,
-        publishedDate: new Date().toISOString(),
+        ...published,
         downloadDate: new Date().toISOString(),
         signature: platform.signature,
+        md5: digests.md5,
+        sha256: digests.sha256,
+        signatureStatus: signatureCheck.status,
+        ...inspection,
       });
 
       totalSkipped++;
       return { success: true, skipped: true };
     }
 
+    // Removed from downloads/ after upload (retention): no need to fetch it again
+    if (skipUploadedDownload(progress, filename, platform)) {
+      totalSkipped++;
+      return { success: true, skipped: true };
+    }
+
     // Download the file
     const result = await downloadFile({
       url: platform.location,
       outputPath,
       signature: platform.signature,
+      signaturePolicy,
       showProgress: true,
+      reserveSpace: bytes => guard.reserve(bytes),
     });
 
+    if (result.success && result.signatureCheck
+      && !await enforceSignaturePolicy(app, platform, outputPath, result.signatureCheck, signaturePolicy)) {
+      quarantinedFiles.push(filename);
+      return { success: false, skipped: false };
+    }
+
     if (result.success) {
       console.log(`  ✅ Successfully downloaded: ${filename}`);
       totalDownloaded++;
 
+      const inspection = await inspectDownloadedPackage(app, outputPath, result.fileSize, undefined);
+      const published = await getPackagePublishedDate(app, platform, previousMetadata.get(filename), result);
+      if (inspection.qpkgIssues) {
+        flaggedFiles.push(filename);
+      }
+
       // Add metadata for this package
       packagesMetadata.push({
         productName: app.name,
@@ -319,9 +754,13 @@ export async function downloadAllApps(
         filename: filename,
         fileSize: result.fileSize,
         downloadUrl: platform.location,
-        publishedDate: new Date().toISOString(),
+        ...published,
         downloadDate: new Date().toISOString(),
         signature: platform.signature,
+        md5: result.md5,
+        sha256: result.sha256,
+        signatureStatus: result.signatureCheck?.status,
+        ...inspection,
       });
 
       return { success: true, skipped: false };
@@ -336,17 +775,23 @@ export async function downloadAllApps(
   await promiseWithConcurrency(taskFunctions, concurrency);
 
   // Save metadata to JSON
-  const metadataPath = join(process.cwd(), 'config', 'metadata.json');
-  await Bun.write(metadataPath, JSON.stringify(packagesMetadata, null, 2));
-  console.log(`\n📝 Metadata saved to: ${metadataPath}`);
+  const savedMetadata = await saveDownloadMetadata(metadataPath, packagesMetadata, packagesMetadata, guard, quarantinedFiles);
 
   // Summary
   console.log('\n' + '='.repeat(60));
   console.log('📊 Download Summary:');
   console.log(`  ✅ Successfully downloaded: ${totalDownloaded}`);
-  console.log(`  ⏭  Skipped (already exists): ${totalSkipped}`);
+  console.log(`  ⏭  Skipped (already exists or uploaded): ${totalSkipped}`);
   console.log(`  ❌ Failed: ${totalFailed}`);
-  console.log(`  📦 Total packages in metadata: ${packagesMetadata.length}`);
+  console.log(`  ⛔ Quarantined (signature mismatch): ${quarantinedFiles.length}`);
+  for (const filename of quarantinedFiles) {
+    console.log(`     - ${filename}`);
+  }
+  console.log(`  🔍 Contents disagree with apps.json: ${flaggedFiles.length}`);
+  for (const filename of flaggedFiles) {
+    console.log(`     - ${filename}`);
+  }
+  console.log(`  📦 Total packages in metadata: ${savedMetadata.length}`);
   console.log('='.repeat(60) + '\n');
 }
 
@@ -378,6 +823,8 @@ export async function downloadAppByName(
   console.log(`Found: ${app.name} v${app.version}`);
   console.log(`Platforms: ${app.platform.length}\n`);
 
+  const signaturePolicy = getSignaturePolicy();
+
   // Create output directory
   await ensureDir(outputDir);
 
@@ -394,10 +841,14 @@ export async function downloadAppByName(
       url: platform.location,
       outputPath,
       signature: platform.signature,
+      signaturePolicy,
       showProgress: true,
     });
 
-    if (result.success) {
+    if (result.success && result.signatureCheck
+      && !await enforceSignaturePolicy(app, platform, outputPath, result.signatureCheck, signaturePolicy)) {
+      console.log(`⛔ Quarantined: ${filename}`);
+    } else if (result.success) {
       console.log(`✅ Successfully downloaded: ${filename}`);
     } else {
       console.log(`❌ Failed to download: ${result.error}`);
@@ -429,7 +880,7 @@ async function removeDownloadedApps(
       item: remainingApps,
     },
   };
-  await Bun.write(updateConfigPath, JSON.stringify(updatedConfig, null, 2));
+  await writeJsonState(updateConfigPath, updatedConfig, ledger => ledger.saveSnapshot('update-apps.json', updatedConfig));
 
   if (remainingApps.length === 0) {
     console.log(`\n✓ All updates downloaded, cleared ${updateConfigPath}`);
@@ -470,16 +921,21 @@ export async function downloadUpdates(
   const concurrency = process.env.DOWNLOAD_CONCURRENCY
     ? parseInt(process.env.DOWNLOAD_CONCURRENCY, 10)
     : DEFAULT_DOWNLOAD_CONCURRENCY;
+  const signaturePolicy = getSignaturePolicy();
 
   console.log(`Found ${apps.length} apps to update`);
-  console.log(`Download concurrency: ${concurrency}\n`);
+  console.log(`Download concurrency: ${concurrency}`);
+  console.log(`Signature policy: ${signaturePolicy}\n`);
 
   // Create output directory
   await ensureDir(outputDir);
+  const { guard, progress } = await prepareDownloads(outputDir);
 
   let totalDownloaded = 0;
   let totalFailed = 0;
   let totalSkipped = 0;
+  const quarantinedFiles: string[] = [];
+  const flaggedFiles: string[] = [];
 
   // Track downloaded files and successfully downloaded apps
   const downloadedFiles = new Set<string>();
@@ -488,6 +944,10 @@ export async function downloadUpdates(
   // Collect metadata for all downloaded packages
   const packagesMetadata: PackageMetadata[] = [];
 
+  // Previous metadata, used to reuse checksums of files already on disk
+  const metadataPath = join(process.cwd(), 'config', 'metadata.json');
+  const previousMetadata = await loadMetadataIndex(metadataPath);
+
   // Collect all download tasks
   interface DownloadTask {
     app: AppItem;
@@ -532,12 +992,29 @@ export async function downloadUpdates(
     console.log(`\n[${taskIndex + 1}/${downloadTasks.length}] ${app.name} v${app.version} - ${platform.platformID}`);
     console.log(`  URL: ${platform.location}`);
     console.log(`  File: ${filename}`);
+    guard.markUsed(filename);
 
     // Check if file already exists
     const existingFile = Bun.file(outputPath);
     if (await existingFile.exists()) {
       const existingFileSize = existingFile.size;
       console.log('  ⏭  File already exists, skipping download...');
+      await touchDownload(outputPath);
+      const digests = await getExistingFileDigests(outputPath, existingFileSize, previousMetadata.get(filename));
+      const signatureCheck = checkSignature(digests, platform.signature, signaturePolicy);
+      logSignatureCheck(signatureCheck);
+
+      if (!await enforceSignaturePolicy(app, platform, outputPath, signatureCheck, signaturePolicy)) {
+        quarantinedFiles.push(filename);
+        appDownloadStatus.set(appKey, false);
+        return { success: false, skipped: false, appKey };
+      }
+
+      const inspection = await inspectDownloadedPackage(app, outputPath, existingFileSize, previousMetadata.get(filename));
+      const published = await getPackagePublishedDate(app, platform, previousMetadata.get(filename));
+      if (inspection.qpkgIssues) {
+        flaggedFiles.push(filename);
+      }
 
       // Add metadata for existing file
       packagesMetadata.push({
@@ -547,27 +1024,53 @@ export async function downloadUpdates(
         filename: filename,
         fileSize: existingFileSize,
         downloadUrl: platform.location,
-        publishedDate: new Date().toISOString(),
+        ...published,
         downloadDate: new Date().toISOString(),
         signature: platform.signature,
+        md5: digests.md5,
+        sha256: digests.sha256,
+        signatureStatus: signatureCheck.status,
+        ...inspection,
       });
 
       totalSkipped++;
       return { success: true, skipped: true, appKey };
     }
 
+    // Removed from downloads/ after upload (retention): no need to fetch it again
+    if (skipUploadedDownload(progress, filename, platform)) {
+      totalSkipped++;
+      return { success: true, skipped: true, appKey };
+    }
+
     // Download the file
     const result = await downloadFile({
       url: platform.location,
       outputPath,
       signature: platform.signature,
+      signaturePolicy,
       showProgress: true,
+      reserveSpace: bytes => guard.reserve(bytes),
     });
 
+    if (result.success && result.signatureCheck
+      && !await enforceSignaturePolicy(app, platform, outputPath, result.signatureCheck, signaturePolicy)) {
+      quarantinedFiles.push(filename);
+      // Keep the app in update-apps.json so a fixed upstream package is picked up later
+      appDownloadStatus.set(appKey, false);
+      return { success: false, skipped: false, appKey };
+    }
+
     if (result.success) {
       console.log(`  ✅ Successfully downloaded: ${filename}`);
       totalDownloaded++;
 
+      const inspection = await inspectDownloadedPackage(app, outputPath, result.fileSize, undefined);
+      const published = await getPackagePublishedDate(app, platform, previousMetadata.get(filename), result);
+      if (inspection.qpkgIssues) {
+        flaggedFiles.push(filename);
+      }
+
       // Add metadata for this package
       packagesMetadata.push({
         productName: app.name,
@@ -576,9 +1079,13 @@ export async function downloadUpdates(
         filename: filename,
         fileSize: result.fileSize,
         downloadUrl: platform.location,
-        publishedDate: new Date().toISOString(),
+        ...published,
         downloadDate: new Date().toISOString(),
         signature: platform.signature,
+        md5: result.md5,
+        sha256: result.sha256,
+        signatureStatus: result.signatureCheck?.status,
+        ...inspection,
       });
 
       return { success: true, skipped: false, appKey };
@@ -601,32 +1108,13 @@ export async function downloadUpdates(
     }
   }
 
-  // Save metadata to JSON
-  const metadataPath = join(process.cwd(), 'config', 'metadata.json');
-
-  // Read existing metadata if it exists
-  let existingMetadata: PackageMetadata[] = [];
-  const existingMetadataFile = Bun.file(metadataPath);
-  if (await existingMetadataFile.exists()) {
-    try {
-      existingMetadata = await existingMetadataFile.json();
-    } catch (error) {
-      console.log('⚠ Failed to read existing metadata, will create new file');
-    }
-  }
-
-  // Merge metadata (avoid duplicates based on filename)
-  const metadataMap = new Map<string, PackageMetadata>();
-  for (const meta of existingMetadata) {
-    metadataMap.set(meta.filename, meta);
-  }
+  // Merge metadata with existing entries (avoid duplicates based on filename)
+  const metadataMap = new Map<string, PackageMetadata>(previousMetadata);
   for (const meta of packagesMetadata) {
     metadataMap.set(meta.filename, meta);
   }
 
-  const mergedMetadata = Array.from(metadataMap.values());
-  await Bun.write(metadataPath, JSON.stringify(mergedMetadata, null, 2));
-  console.log(`\n📝 Metadata saved to: ${metadataPath}`);
+  const mergedMetadata = await saveDownloadMetadata(metadataPath, metadataMap.values(), packagesMetadata, guard, quarantinedFiles);
 
   // Remove successfully downloaded apps from update-apps.json
   await removeDownloadedApps(updateConfigPath, successfullyDownloadedApps);
@@ -635,8 +1123,16 @@ export async function downloadUpdates(
   console.log('\n' + '='.repeat(60));
   console.log('📊 Download Summary:');
   console.log(`  ✅ Successfully downloaded: ${totalDownloaded}`);
-  console.log(`  ⏭  Skipped (already exists): ${totalSkipped}`);
+  console.log(`  ⏭  Skipped (already exists or uploaded): ${totalSkipped}`);
   console.log(`  ❌ Failed: ${totalFailed}`);
+  console.log(`  ⛔ Quarantined (signature mismatch): ${quarantinedFiles.length}`);
+  for (const filename of quarantinedFiles) {
+    console.log(`     - ${filename}`);
+  }
+  console.log(`  🔍 Contents disagree with apps.json: ${flaggedFiles.length}`);
+  for (const filename of flaggedFiles) {
+    console.log(`     - ${filename}`);
+  }
   console.log(`  📦 Total packages in metadata: ${mergedMetadata.length}`);
   console.log(`  🎯 Apps completed: ${successfullyDownloadedApps.size}/${apps.length}`);
   console.log('='.repeat(60) + '\n');
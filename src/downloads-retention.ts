@@ -0,0 +1,445 @@
+/**
+ * Local Downloads Retention
+ *
+ * Keeps downloads/ from growing forever:
+ *
+ * - Retention: keep the latest N versions (or N days) per product and architecture
+ * - Delete after upload: remove files whose upload is confirmed
+ * - Disk budget: cap the total size of downloads/, evicting the least
+ *   recently used uploaded files first
+ * - Free space: refuse to start downloads that would fill the disk
+ *
+ * Evicted files are removed from config/metadata.json right away, so upload
+ * and catalog never see metadata for a file that is gone. Only files whose
+ * upload is confirmed are evicted to stay within the budget; files that were
+ * never uploaded are only removed by the retention rules.
+ */
+
+import { join } from 'path';
+import { readdir, rm, stat, statfs, utimes } from 'fs/promises';
+import { getEnvOrDefault } from './env';
+import { findLedger, writeJsonState } from './ledger';
+import { applyRetention, describeRetentionPolicy, getRetentionPolicy, type RetentionItem, type RetentionPolicy } from './retention';
+import { formatBytes } from './utils/format';
+import type { PackageMetadata, UploadProgress, UploadProgressRecord } from './types';
+
+const METADATA_FILE = join(process.cwd(), 'config', 'metadata.json');
+const UPLOAD_PROGRESS_FILE = join(process.cwd(), 'config', 'upload-progress.json');
+
+/**
+ * Free space kept on the disk by default (1 GiB)
+ */
+const DEFAULT_MIN_FREE_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Settings for downloads/ (DOWNLOADS_* variables)
+ */
+export interface DownloadsPolicy {
+  retention: RetentionPolicy;
+  deleteUploaded: boolean;
+  maxBytes?: number;
+  minFreeBytes: number;
+}
+
+/**
+ * A package file in downloads/
+ */
+export interface LocalPackage {
+  filename: string;
+  path: string;
+  size: number;
+  lastUsed: number;   // Latest of access and modification time (ms)
+  metadata?: PackageMetadata;
+  uploaded: boolean;   // Upload confirmed for this exact file (same signature)
+}
+
+/**
+ * A file that is removed, with the rule that removed it
+ */
+export interface Eviction {
+  file: LocalPackage;
+  reason: string;
+}
+
+/**
+ * Thrown when a download would exceed the disk budget or fill the disk
+ */
+export class InsufficientSpaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientSpaceError';
+  }
+}
+
+/**
+ * Parse a byte count setting
+ */
+function parseBytes(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`Invalid ${name}: ${value} (expected a number of bytes)`);
+  }
+  return number;
+}
+
+/**
+ * Read the downloads policy from the environment
+ */
+export function getDownloadsPolicy(): DownloadsPolicy {
+  const maxBytes = getEnvOrDefault('DOWNLOADS_MAX_BYTES', '');
+  const minFreeBytes = getEnvOrDefault('DOWNLOADS_MIN_FREE_BYTES', '');
+
+  return {
+    retention: getRetentionPolicy('DOWNLOADS'),
+    deleteUploaded: getEnvOrDefault('DOWNLOADS_DELETE_UPLOADED', 'false') === 'true',
+    maxBytes: maxBytes ? parseBytes('DOWNLOADS_MAX_BYTES', maxBytes) : undefined,
+    minFreeBytes: minFreeBytes ? parseBytes('DOWNLOADS_MIN_FREE_BYTES', minFreeBytes) : DEFAULT_MIN_FREE_BYTES,
+  };
+}
+
+/**
+ * Describe a policy for logs
+ */
+export function describeDownloadsPolicy(policy: DownloadsPolicy): string {
+  const rules = [
+    policy.retention.keepVersions || policy.retention.maxAgeDays ? describeRetentionPolicy(policy.retention) : '',
+    policy.deleteUploaded ? 'delete after upload' : '',
+    policy.maxBytes !== undefined ? `max ${formatBytes(policy.maxBytes)}` : '',
+    `keep ${formatBytes(policy.minFreeBytes)} free`,
+  ].filter(Boolean);
+  return rules.join(', ');
+}
+
+/**
+ * Whether an upload record confirms that a file is stored remotely
+ * The record must be for the same signature, and no copy may be waiting for
+ * a retry (failed) or missing, since those are uploaded again from downloads/
+ */
+export function isUploadConfirmed(record: UploadProgressRecord | undefined, signature: string | undefined): boolean {
+  if (!record || !signature || record.signature !== signature) {
+    return false;
+  }
+
+  if (!record.replicas) {
+    return Boolean(record.primaryUrl || record.ctfileUrl);
+  }
+
+  const replicas = Object.values(record.replicas);
+  return replicas.some(r => r.status === 'uploaded')
+    && !replicas.some(r => r.status === 'failed' || r.status === 'missing');
+}
+
+/**
+ * Load config/upload-progress.json (empty if missing or unreadable)
+ */
+export async function loadUploadProgress(): Promise<UploadProgress> {
+  const file = Bun.file(UPLOAD_PROGRESS_FILE);
+  if (!await file.exists()) {
+    return {};
+  }
+
+  try {
+    return await file.json();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load config/metadata.json (empty if missing or unreadable)
+ */
+async function loadMetadata(): Promise<PackageMetadata[]> {
+  const file = Bun.file(METADATA_FILE);
+  if (!await file.exists()) {
+    return [];
+  }
+
+  try {
+    return await file.json();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Look up package metadata in the ledger, if it can be opened
+ * Covers files downloaded by an earlier full download, whose entries are no
+ * longer in metadata.json
+ */
+function getLedgerMetadata(filename: string): PackageMetadata | undefined {
+  try {
+    return findLedger()?.get(filename)?.metadata;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List the package files in downloads/
+ * In-progress downloads (.part) are not listed
+ */
+export async function scanDownloads(outputDir: string, progress: UploadProgress): Promise<LocalPackage[]> {
+  let names: string[];
+  try {
+    names = await readdir(outputDir);
+  } catch {
+    return [];
+  }
+
+  const metadataIndex = new Map((await loadMetadata()).map(m => [m.filename, m]));
+  const packages: LocalPackage[] = [];
+
+  for (const filename of names.filter(name => name.endsWith('.qpkg')).sort()) {
+    const path = join(outputDir, filename);
+    const stats = await stat(path);
+    if (!stats.isFile()) {
+      continue;
+    }
+
+    const metadata = metadataIndex.get(filename) || getLedgerMetadata(filename);
+    packages.push({
+      filename,
+      path,
+      size: stats.size,
+      lastUsed: Math.max(stats.atimeMs, stats.mtimeMs),
+      metadata,
+      uploaded: isUploadConfirmed(progress[filename], metadata?.signature),
+    });
+  }
+
+  return packages;
+}
+
+/**
+ * Total size of all files in downloads/, including .part files
+ */
+async function getDirectorySize(outputDir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await readdir(outputDir, { withFileTypes: true })) {
+    if (entry.isFile()) {
+      total += (await stat(join(outputDir, entry.name))).size;
+    }
+  }
+  return total;
+}
+
+/**
+ * Free bytes on the disk that holds a directory
+ */
+export async function getFreeBytes(dirPath: string): Promise<number> {
+  const stats = await statfs(dirPath);
+  return stats.bavail * stats.bsize;
+}
+
+/**
+ * Mark a file as used, so the budget evicts it last
+ */
+export async function touchDownload(filePath: string): Promise<void> {
+  const stats = await stat(filePath);
+  await utimes(filePath, new Date(), stats.mtime);
+}
+
+/**
+ * Work out which files to remove under a policy
+ *
+ * Rules are applied in order: retention, delete after upload, then the
+ * disk budget (least recently used uploaded files first).
+ *
+ * @returns Files to remove, each with the first rule that removed it
+ */
+export function planDownloadsCleanup(
+  files: LocalPackage[],
+  policy: DownloadsPolicy,
+  now: Date = new Date()
+): Eviction[] {
+  const evictions = new Map<string, Eviction>();
+
+  if (policy.retention.keepVersions || policy.retention.maxAgeDays) {
+    // Files without metadata can't be placed in a product, so they are kept
+    const items: (RetentionItem & { file: LocalPackage })[] = files
+      .filter(file => file.metadata)
+      .map(file => ({
+        file,
+        productName: file.metadata!.productName,
+        architecture: file.metadata!.architecture,
+        version: file.metadata!.version,
+        date: file.metadata!.publishedDate,
+      }));
+
+    for (const decision of applyRetention(items, policy.retention, now)) {
+      if (!decision.keep) {
+        evictions.set(decision.item.file.filename, { file: decision.item.file, reason: decision.reason });
+      }
+    }
+  }
+
+  if (policy.deleteUploaded) {
+    for (const file of files) {
+      if (file.uploaded && !evictions.has(file.filename)) {
+        evictions.set(file.filename, { file, reason: 'uploaded' });
+      }
+    }
+  }
+
+  if (policy.maxBytes !== undefined) {
+    let total = files
+      .filter(file => !evictions.has(file.filename))
+      .reduce((sum, file) => sum + file.size, 0);
+
+    const lru = files
+      .filter(file => file.uploaded && !evictions.has(file.filename))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const file of lru) {
+      if (total <= policy.maxBytes) {
+        break;
+      }
+      evictions.set(file.filename, { file, reason: `over ${formatBytes(policy.maxBytes)} budget, least recently used` });
+      total -= file.size;
+    }
+  }
+
+  return [...evictions.values()];
+}
+
+/**
+ * Remove files from downloads/ and their entries from config/metadata.json
+ */
+export async function evictDownloads(filenames: string[], outputDir: string): Promise<void> {
+  if (filenames.length === 0) {
+    return;
+  }
+
+  for (const filename of filenames) {
+    await rm(join(outputDir, filename), { force: true });
+  }
+
+  const metadata = await loadMetadata();
+  const evicted = new Set(filenames);
+  const remaining = metadata.filter(m => !evicted.has(m.filename));
+  if (remaining.length !== metadata.length) {
+    await writeJsonState(METADATA_FILE, remaining, ledger => ledger.saveSnapshot('metadata.json', remaining));
+  }
+}
+
+/**
+ * Apply the downloads policy to downloads/
+ *
+ * @param apply - false for a dry run: the plan is returned, nothing is removed
+ * @returns The files removed (or that would be removed)
+ */
+export async function cleanDownloads(
+  outputDir: string,
+  policy: DownloadsPolicy,
+  apply: boolean = true
+): Promise<Eviction[]> {
+  const files = await scanDownloads(outputDir, await loadUploadProgress());
+  const evictions = planDownloadsCleanup(files, policy);
+
+  if (apply) {
+    await evictDownloads(evictions.map(e => e.file.filename), outputDir);
+  }
+
+  return evictions;
+}
+
+/**
+ * Guards concurrent downloads against the disk budget and a full disk
+ *
+ * Every download reserves its size before writing. Reservations are checked
+ * one at a time against the free space and DOWNLOADS_MAX_BYTES; bytes already
+ * written by running downloads count twice, which errs on the safe side.
+ * When the budget is exceeded, uploaded files not used in this run are
+ * evicted, least recently used first.
+ */
+export class DiskSpaceGuard {
+  private reserved = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly used = new Set<string>();
+  readonly evicted = new Set<string>();
+
+  constructor(
+    private readonly outputDir: string,
+    private readonly policy: DownloadsPolicy,
+    private readonly progress: UploadProgress
+  ) {}
+
+  /**
+   * Mark a file as needed by this run, so it is not evicted
+   */
+  markUsed(filename: string): void {
+    this.used.add(filename);
+  }
+
+  /**
+   * Reserve space for a download
+   *
+   * @param bytes - Bytes still to be written (0 if unknown)
+   * @returns Function that releases the reservation
+   * @throws InsufficientSpaceError if the download doesn't fit
+   */
+  reserve(bytes: number): Promise<() => void> {
+    const result = this.queue.then(() => this.tryReserve(bytes));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async tryReserve(bytes: number): Promise<() => void> {
+    const { maxBytes, minFreeBytes } = this.policy;
+
+    if (maxBytes !== undefined) {
+      let total = await getDirectorySize(this.outputDir) + this.reserved;
+      if (total + bytes > maxBytes) {
+        total -= await this.evictForBudget(total + bytes - maxBytes);
+      }
+      if (total + bytes > maxBytes) {
+        throw new InsufficientSpaceError(
+          `Not enough space: ${formatBytes(bytes)} would exceed DOWNLOADS_MAX_BYTES (${formatBytes(maxBytes)}, ${formatBytes(total)} in use)`
+        );
+      }
+    }
+
+    const free = await getFreeBytes(this.outputDir) - this.reserved;
+    if (free - bytes < minFreeBytes) {
+      throw new InsufficientSpaceError(
+        `Not enough disk space: ${formatBytes(bytes)} needed, ${formatBytes(Math.max(free, 0))} free, ${formatBytes(minFreeBytes)} must stay free`
+      );
+    }
+
+    this.reserved += bytes;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.reserved -= bytes;
+      }
+    };
+  }
+
+  /**
+   * Evict uploaded files until enough bytes are freed
+   * @returns Bytes freed
+   */
+  private async evictForBudget(needed: number): Promise<number> {
+    const candidates = (await scanDownloads(this.outputDir, this.progress))
+      .filter(file => file.uploaded && !this.used.has(file.filename))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    const victims: LocalPackage[] = [];
+    let freed = 0;
+    for (const file of candidates) {
+      if (freed >= needed) {
+        break;
+      }
+      victims.push(file);
+      freed += file.size;
+    }
+
+    await evictDownloads(victims.map(file => file.filename), this.outputDir);
+    for (const file of victims) {
+      this.evicted.add(file.filename);
+      console.log(`  🗑  Evicted ${file.filename} (${formatBytes(file.size)}, uploaded) to stay within the budget`);
+    }
+    return freed;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Feed History
+ *
+ * fetch-xml.ts overwrites config/apps.json on every run. With FEED_HISTORY
+ * enabled (default) each fetched feed is also archived in config/history/,
+ * gzip-compressed, as the raw XML and the converted JSON:
+ *
+ *   config/history/2026-10-18T03-00-00-000Z_<cachechk>.json.gz
+ *   config/history/2026-10-18T03-00-00-000Z_<cachechk>.xml.gz
+ *
+ * The file name records when the feed was fetched and its cachechk. A feed
+ * identical to the latest snapshot is not archived again. The snapshots can
+ * be compared with each other, looked up as of a date, and searched for the
+ * first appearance of a version.
+ */
+
+import { join } from 'path';
+import { mkdir, readdir } from 'fs/promises';
+import { getEnvOrDefault } from './env';
+import { parsePublishedDate } from './publish-date';
+import { getFilenameFromUrl, writeFileAtomic } from './utils/file';
+import { versionsEqual } from './version';
+import type { AppsConfig } from './types';
+
+export const FEED_HISTORY_DIR = join(process.cwd(), 'config', 'history');
+
+/**
+ * One archived feed
+ */
+export interface FeedSnapshot {
+  id: string;              // File name without extension
+  fetchedAt: string;       // ISO 8601
+  cachechk: string;
+  jsonPath: string;
+  xmlPath?: string;        // Missing if only the JSON was archived
+}
+
+/**
+ * When a version of an app was listed in the feed
+ */
+export interface VersionHistory {
+  app: string;               // internalName, or name if the feed has none
+  name: string;
+  version: string;
+  firstSeen: FeedSnapshot;
+  lastSeen: FeedSnapshot;
+  inFirstSnapshot: boolean;  // First seen in the oldest snapshot, so it may be older
+  listed: boolean;           // Still listed in the latest snapshot
+  files: string[];
+}
+
+const SNAPSHOT_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z_(.*)\.json\.gz$/;
+
+/**
+ * Whether fetched feeds are archived (FEED_HISTORY, default: true)
+ */
+export function isFeedHistoryEnabled(): boolean {
+  return getEnvOrDefault('FEED_HISTORY', 'true') !== 'false';
+}
+
+/**
+ * Build the snapshot id of a fetch
+ * cachechk is reduced to characters that are safe in file names
+ */
+function getSnapshotId(fetchedAt: Date, cachechk: string): string {
+  const stamp = fetchedAt.toISOString().replace(/[:.]/g, '-');
+  return `${stamp}_${(cachechk || '').replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+/**
+ * List the archived feeds, oldest first
+ */
+export async function listFeedSnapshots(dir: string = FEED_HISTORY_DIR): Promise<FeedSnapshot[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const snapshots: FeedSnapshot[] = [];
+  for (const name of names) {
+    const match = name.match(SNAPSHOT_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const id = name.slice(0, -'.json.gz'.length);
+    const xmlName = `${id}.xml.gz`;
+    snapshots.push({
+      id,
+      fetchedAt: `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`,
+      cachechk: match[6],
+      jsonPath: join(dir, name),
+      xmlPath: names.includes(xmlName) ? join(dir, xmlName) : undefined,
+    });
+  }
+
+  return snapshots.sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+}
+
+/**
+ * Read the apps config of a snapshot
+ */
+export async function loadFeedSnapshot(snapshot: FeedSnapshot): Promise<AppsConfig> {
+  const data = await Bun.file(snapshot.jsonPath).arrayBuffer();
+  return JSON.parse(new TextDecoder().decode(Bun.gunzipSync(new Uint8Array(data))));
+}
+
+/**
+ * Read the raw XML of a snapshot
+ */
+export async function loadFeedXml(snapshot: FeedSnapshot): Promise<string | undefined> {
+  if (!snapshot.xmlPath) {
+    return undefined;
+  }
+  const data = await Bun.file(snapshot.xmlPath).arrayBuffer();
+  return new TextDecoder().decode(Bun.gunzipSync(new Uint8Array(data)));
+}
+
+/**
+ * Archive a fetched feed
+ *
+ * @returns The new snapshot, or null if the feed is identical to the latest one
+ */
+export async function archiveFeedSnapshot(
+  xml: string,
+  config: AppsConfig,
+  fetchedAt: Date = new Date(),
+  dir: string = FEED_HISTORY_DIR
+): Promise<FeedSnapshot | null> {
+  const json = JSON.stringify(config);
+
+  const latest = (await listFeedSnapshots(dir)).at(-1);
+  if (latest && JSON.stringify(await loadFeedSnapshot(latest)) === json) {
+    return null;
+  }
+
+  await mkdir(dir, { recursive: true });
+  const id = getSnapshotId(fetchedAt, config.plugins?.cachechk);
+  const snapshot: FeedSnapshot = {
+    id,
+    fetchedAt: fetchedAt.toISOString(),
+    cachechk: id.slice(id.indexOf('_') + 1),
+    jsonPath: join(dir, `${id}.json.gz`),
+    xmlPath: join(dir, `${id}.xml.gz`),
+  };
+
+  // XML first: a snapshot is only listed once its JSON exists
+  await writeFileAtomic(snapshot.xmlPath!, Bun.gzipSync(new TextEncoder().encode(xml)));
+  await writeFileAtomic(snapshot.jsonPath, Bun.gzipSync(new TextEncoder().encode(json)));
+  return snapshot;
+}
+
+/**
+ * Find a snapshot by reference
+ *
+ * - "latest" / "first"
+ * - a snapshot id
+ * - a cachechk (the latest snapshot with it)
+ * - a date or time: the snapshot in effect then, i.e. the latest one fetched
+ *   at or before it; a date without time means the end of that day (UTC)
+ */
+export function resolveFeedSnapshot(snapshots: FeedSnapshot[], ref: string): FeedSnapshot | undefined {
+  if (ref === 'latest') return snapshots.at(-1);
+  if (ref === 'first') return snapshots[0];
+
+  const byId = snapshots.find(s => s.id === ref);
+  if (byId) return byId;
+
+  const byCachechk = snapshots.filter(s => s.cachechk === ref).at(-1);
+  if (byCachechk) return byCachechk;
+
+  const parsed = parsePublishedDate(ref);
+  if (!parsed) {
+    return undefined;
+  }
+  const time = /^\d{4}[/-]\d{1,2}[/-]\d{1,2}$/.test(ref.trim())
+    ? new Date(parsed).getTime() + 24 * 60 * 60 * 1000 - 1
+    : new Date(parsed).getTime();
+
+  return snapshots.filter(s => new Date(s.fetchedAt).getTime() <= time).at(-1);
+}
+
+/**
+ * Trace the versions of an app through the snapshots
+ *
+ * @param snapshots - Snapshots to search, oldest first
+ * @param app - internalName or name (case-insensitive)
+ * @returns One entry per version, in order of first appearance; versions only
+ *   written differently ("1.0" and "1.0.0") share an entry
+ */
+export async function findVersionHistory(snapshots: FeedSnapshot[], app: string): Promise<VersionHistory[]> {
+  const query = app.toLowerCase();
+  const versions: VersionHistory[] = [];
+  const latest = snapshots.at(-1);
+
+  for (const snapshot of snapshots) {
+    const config = await loadFeedSnapshot(snapshot);
+    for (const item of config.plugins?.item || []) {
+      if (item.internalName?.toLowerCase() !== query && item.name.toLowerCase() !== query) {
+        continue;
+      }
+
+      const files = item.platform.map(p => getFilenameFromUrl(p.location));
+      const history = versions.find(h => versionsEqual(h.version, item.version));
+      if (history) {
+        history.lastSeen = snapshot;
+        history.files = [...new Set([...history.files, ...files])];
+      } else {
+        versions.push({
+          app: item.internalName || item.name,
+          name: item.name,
+          version: item.version,
+          firstSeen: snapshot,
+          lastSeen: snapshot,
+          inFirstSnapshot: snapshot === snapshots[0],
+          listed: false,
+          files,
+        });
+      }
+    }
+  }
+
+  for (const history of versions) {
+    history.listed = history.lastSeen === latest;
+  }
+  return versions;
+}
@@ -0,0 +1,249 @@
+/**
+ * Package Feeds
+ *
+ * Atom and RSS feeds of newly mirrored package versions, so new releases can
+ * be followed in a feed reader instead of polling the catalog.
+ *
+ * An entry is one version of a product with a download link per architecture.
+ * Entries are created when the upload of a version is first seen in
+ * metadata-uploaded.json; architectures uploaded in later runs are added to
+ * the same entry. metadata-uploaded.json only holds the last run, so entries
+ * are kept in a state file (config/feed-state.json) between runs.
+ */
+
+import { escapeHtml } from './utils/html';
+import { formatBytes, formatDateTime } from './utils/format';
+import { groupPackagesByProduct } from './utils/packages';
+import { toCatalogEntry, type CatalogEntry } from './catalog';
+import { getProductFolderName } from './remote-path';
+import type { UploadedPackage } from './types';
+
+/**
+ * Default number of entries kept in the feed state
+ */
+export const DEFAULT_FEED_MAX_ENTRIES = 200;
+
+/**
+ * One mirrored version of a product
+ */
+export interface FeedEntry {
+  id: string;
+  productName: string;
+  version: string;
+  previousVersion?: string;   // Version mirrored before this one (absent for new products)
+  publishedDate: string;
+  mirroredAt: string;         // First upload of this version
+  updatedAt: string;          // Last time an architecture was added or replaced
+  packages: CatalogEntry[];
+}
+
+/**
+ * Feed state file structure (config/feed-state.json)
+ */
+export interface FeedState {
+  updatedAt: string;
+  versions: Record<string, string>;   // Product name -> latest mirrored version
+  entries: FeedEntry[];               // Newest first
+}
+
+/**
+ * Feed metadata
+ */
+export interface FeedInfo {
+  id: string;
+  title: string;
+  selfUrl?: string;   // Public URL of the feed file itself
+}
+
+/**
+ * Create an empty feed state
+ */
+export function createFeedState(): FeedState {
+  return { updatedAt: new Date().toISOString(), versions: {}, entries: [] };
+}
+
+/**
+ * Stable ID of a product version
+ */
+function getEntryId(productName: string, version: string): string {
+  return `urn:qnap-sync:${encodeURIComponent(productName)}:${encodeURIComponent(version)}`;
+}
+
+/**
+ * Add the uploaded packages to the feed state
+ *
+ * Uploads already in the state are ignored, so running this again on the same
+ * metadata-uploaded.json changes nothing.
+ *
+ * @param state - Feed state (modified in place)
+ * @param packages - Packages of the last upload run
+ * @param maxEntries - Number of entries to keep (oldest are dropped)
+ * @returns Number of new entries
+ */
+export function updateFeedState(state: FeedState, packages: UploadedPackage[], maxEntries: number = DEFAULT_FEED_MAX_ENTRIES): number {
+  const now = new Date().toISOString();
+  const entries = new Map(state.entries.map(entry => [entry.id, entry]));
+  let added = 0;
+  let changed = false;
+
+  for (const [productName, productPackages] of groupPackagesByProduct(packages)) {
+    // Oldest version first, so previousVersion chains up within one run
+    const versions = new Map<string, UploadedPackage[]>();
+    for (const pkg of [...productPackages].sort((a, b) => a.publishedDate.localeCompare(b.publishedDate))) {
+      versions.set(pkg.version, [...(versions.get(pkg.version) || []), pkg]);
+    }
+
+    for (const [version, versionPackages] of versions) {
+      const uploaded = versionPackages
+        .map(pkg => ({ pkg, entry: toCatalogEntry(pkg) }))
+        .filter((item): item is { pkg: UploadedPackage; entry: CatalogEntry } => item.entry !== null);
+
+      if (uploaded.length === 0) {
+        continue;
+      }
+
+      const id = getEntryId(productName, version);
+      let entry = entries.get(id);
+
+      if (!entry) {
+        const previousVersion = state.versions[productName];
+        const mirroredAt = uploaded.map(u => u.pkg.uploadDate || now).sort()[0]!;
+        entry = {
+          id,
+          productName,
+          version,
+          previousVersion: previousVersion !== version ? previousVersion : undefined,
+          publishedDate: uploaded[0]!.entry.publishedDate,
+          mirroredAt,
+          updatedAt: mirroredAt,
+          packages: [],
+        };
+        entries.set(id, entry);
+        added++;
+
+        // A late upload of an older version doesn't make it the latest
+        const latest = previousVersion ? entries.get(getEntryId(productName, previousVersion)) : undefined;
+        if (!latest || entry.publishedDate >= latest.publishedDate) {
+          state.versions[productName] = version;
+        }
+      }
+
+      for (const { pkg, entry: catalogEntry } of uploaded) {
+        const index = entry.packages.findIndex(p => p.architecture === catalogEntry.architecture);
+        if (index >= 0 && entry.packages[index]!.filename === catalogEntry.filename
+            && entry.packages[index]!.downloadUrl === catalogEntry.downloadUrl) {
+          continue;
+        }
+
+        if (index >= 0) {
+          entry.packages[index] = catalogEntry;
+        } else {
+          entry.packages.push(catalogEntry);
+          entry.packages.sort((a, b) => a.architecture.localeCompare(b.architecture));
+        }
+        entry.updatedAt = pkg.uploadDate || now;
+        changed = true;
+      }
+    }
+  }
+
+  if (added > 0 || changed) {
+    state.entries = [...entries.values()]
+      .sort((a, b) => b.mirroredAt.localeCompare(a.mirroredAt))
+      .slice(0, maxEntries);
+    state.updatedAt = now;
+  }
+
+  return added;
+}
+
+/**
+ * Title of an entry, e.g. "AdGuard Home 0.107.24 (updated from 0.107.23)"
+ */
+function getEntryTitle(entry: FeedEntry): string {
+  const change = entry.previousVersion ? `updated from ${entry.previousVersion}` : 'new';
+  return `${entry.productName} ${entry.version} (${change})`;
+}
+
+/**
+ * HTML body of an entry: download links per architecture
+ */
+function renderEntryContent(entry: FeedEntry, timeZone: string): string {
+  const rows = entry.packages.map(pkg => {
+    const links = [`<a href="${escapeHtml(pkg.downloadUrl)}">Download</a>`];
+    if (pkg.shortUrl) {
+      links.push(`<a href="${escapeHtml(pkg.shortUrl)}">Short URL</a>`);
+    }
+    for (const [name, url] of Object.entries(pkg.mirrors)) {
+      if (url !== pkg.downloadUrl) {
+        links.push(`<a href="${escapeHtml(url)}">${escapeHtml(name)}</a>`);
+      }
+    }
+    return `<tr><td>${escapeHtml(pkg.architecture)}</td><td>${escapeHtml(pkg.filename)}</td><td>${formatBytes(pkg.fileSize)}</td><td>${links.join(' · ')}</td></tr>`;
+  });
+
+  return `<p>Published ${escapeHtml(formatDateTime(entry.publishedDate, timeZone))} (${escapeHtml(timeZone)})</p>
+<table>
+<tr><th>Architecture</th><th>File</th><th>Size</th><th>Download</th></tr>
+${rows.join('\n')}
+</table>`;
+}
+
+/**
+ * Render entries as an Atom feed
+ *
+ * @param timeZone - Timezone for dates shown in entry content
+ */
+export function renderAtomFeed(info: FeedInfo, entries: FeedEntry[], timeZone: string = 'UTC'): string {
+  const updated = entries.reduce((latest, e) => (e.updatedAt > latest ? e.updatedAt : latest), '1970-01-01T00:00:00.000Z');
+
+  const items = entries.map(entry => `  <entry>
+    <id>${escapeHtml(entry.id)}</id>
+    <title>${escapeHtml(getEntryTitle(entry))}</title>
+    <published>${escapeHtml(entry.mirroredAt)}</published>
+    <updated>${escapeHtml(entry.updatedAt)}</updated>
+${entry.packages[0] ? `    <link rel="alternate" href="${escapeHtml(entry.packages[0].downloadUrl)}"/>\n` : ''}${entry.packages.map(p => `    <category term="${escapeHtml(p.architecture)}"/>\n`).join('')}    <content type="html">${escapeHtml(renderEntryContent(entry, timeZone))}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(info.id)}</id>
+  <title>${escapeHtml(info.title)}</title>
+  <updated>${updated}</updated>
+  <author><name>qnap-sync</name></author>
+${info.selfUrl ? `  <link rel="self" href="${escapeHtml(info.selfUrl)}"/>\n` : ''}${items.join('\n')}
+</feed>
+`;
+}
+
+/**
+ * Render entries as an RSS 2.0 feed
+ *
+ * @param timeZone - Timezone for dates shown in entry content
+ */
+export function renderRssFeed(info: FeedInfo, entries: FeedEntry[], timeZone: string = 'UTC'): string {
+  const items = entries.map(entry => `    <item>
+      <guid isPermaLink="false">${escapeHtml(entry.id)}</guid>
+      <title>${escapeHtml(getEntryTitle(entry))}</title>
+      <pubDate>${new Date(entry.mirroredAt).toUTCString()}</pubDate>
+${entry.packages[0] ? `      <link>${escapeHtml(entry.packages[0].downloadUrl)}</link>\n` : ''}${entry.packages.map(p => `      <category>${escapeHtml(p.architecture)}</category>\n`).join('')}      <description>${escapeHtml(renderEntryContent(entry, timeZone))}</description>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${escapeHtml(info.title)}</title>
+    <link>${escapeHtml(info.selfUrl || '')}</link>
+    <description>${escapeHtml(info.title)}</description>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Feed file name of a product, relative to the feed directory
+ */
+export function getProductFeedPath(productName: string): string {
+  return `products/${getProductFolderName(productName) || 'product'}.xml`;
+}
@@ -7,7 +7,12 @@
 
 import { parseStringPromise } from 'xml2js';
 import { loadEnv, getEnv } from './env';
-import type { Platform, AppItem, AppsConfig } from './types';
+import { writeJsonState, type Ledger } from './ledger';
+import { writeFileAtomic } from './utils/file';
+import { buildChangeReport, describeChange, findDifferences, getDowngradePolicy } from './apps-diff';
+import { archiveFeedSnapshot, isFeedHistoryEnabled } from './feed-history';
+import { isWithdrawnTrackingEnabled, loadWithdrawnCatalog, updateWithdrawnCatalog, WITHDRAWN_FILE } from './withdrawn';
+import type { AppsConfig } from './types';
 
 interface FetchXmlOptions {
   url: string;
@@ -71,14 +76,18 @@ async function xmlToJson(xml: string): Promise<any> {
 }
 
 /**
- * Save JSON to file using Bun.write
+ * Save JSON to file (atomically, via rename)
+ * State files pass `update` to record the change in the ledger first
  */
-async function saveJson(data: any, outputPath: string): Promise<void> {
+async function saveJson(data: any, outputPath: string, update?: (ledger: Ledger) => void): Promise<void> {
   console.log(`💾 Saving JSON to: ${outputPath}`);
 
   try {
-    const jsonString = JSON.stringify(data, null, 2);
-    await Bun.write(outputPath, jsonString);
+    if (update) {
+      await writeJsonState(outputPath, data, update);
+    } else {
+      await writeFileAtomic(outputPath, JSON.stringify(data, null, 2));
+    }
 
     const stats = Bun.file(outputPath).size;
     console.log(`✓ Saved ${(stats / 1024).toFixed(1)} KB to ${outputPath}`);
@@ -87,66 +96,6 @@ async function saveJson(data: any, outputPath: string): Promise<void> {
   }
 }
 
-/**
- * Compare two apps configs and find differences (new or updated apps)
- */
-function findDifferences(oldConfig: AppsConfig | null, newConfig: AppsConfig): AppsConfig {
-  // If no old config, all apps are new
-  if (!oldConfig || !oldConfig.plugins || !oldConfig.plugins.item) {
-    return newConfig;
-  }
-
-  const oldApps = oldConfig.plugins.item;
-  const newApps = newConfig.plugins.item;
-  const differences: AppItem[] = [];
-
-  // Create a map of old apps for quick lookup
-  const oldAppsMap = new Map<string, AppItem>();
-  for (const app of oldApps) {
-    oldAppsMap.set(app.internalName || app.name, app);
-  }
-
-  // Find new or updated apps
-  for (const newApp of newApps) {
-    const key = newApp.internalName || newApp.name;
-    const oldApp = oldAppsMap.get(key);
-
-    if (!oldApp) {
-      // New app
-      differences.push(newApp);
-    } else if (oldApp.version !== newApp.version) {
-      // Version updated
-      differences.push(newApp);
-    } else {
-      // Check if platforms changed (including signature changes for re-published packages)
-      const oldPlatformsSet = new Set(
-        oldApp.platform.map(p => `${p.platformID}:${p.location}:${p.signature}`)
-      );
-
-      // Check if there are new platforms, updated platforms, or re-published packages (signature change)
-      let hasChanges = false;
-      for (const platform of newApp.platform) {
-        const key = `${platform.platformID}:${platform.location}:${platform.signature}`;
-        if (!oldPlatformsSet.has(key)) {
-          hasChanges = true;
-          break;
-        }
-      }
-
-      if (hasChanges) {
-        differences.push(newApp);
-      }
-    }
-  }
-
-  return {
-    plugins: {
-      cachechk: newConfig.plugins.cachechk,
-      item: differences,
-    },
-  };
-}
-
 /**
  * Main function
  */
@@ -166,6 +115,7 @@ async function main() {
     const password = getEnv('QNAP_PASSWORD');
     const outputPath = process.env.OUTPUT_PATH || 'config/apps.json';
     const updatePath = 'config/update-apps.json';
+    const reportPath = 'config/change-report.json';
 
     console.log('📋 Configuration:');
     console.log(`   URL: ${url}`);
@@ -196,35 +146,54 @@ async function main() {
     // Convert to JSON
     const json = await xmlToJson(xml);
 
+    // Archive the fetched feed (FEED_HISTORY)
+    if (isFeedHistoryEnabled()) {
+      try {
+        const snapshot = await archiveFeedSnapshot(xml, json);
+        console.log(snapshot
+          ? `🗂  Archived feed snapshot: ${snapshot.id}`
+          : 'ℹ️  Feed unchanged since the last snapshot, not archived');
+      } catch (error) {
+        console.warn(`⚠ Failed to archive feed snapshot: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    console.log();
+
     // Find differences
     console.log('🔍 Comparing with previous version...');
-    const differences = findDifferences(oldConfig, json);
+    const diff = findDifferences(oldConfig, json, { downgradePolicy: getDowngradePolicy() });
+    const differences = diff.updates;
     const diffCount = differences.plugins.item.length;
-    console.log(`✓ Found ${diffCount} new or updated apps`);
+    console.log(`✓ Found ${diffCount} new or updated apps, ${diff.changes.length} changes in total`);
 
-    if (diffCount > 0) {
+    if (diff.changes.length > 0) {
       console.log();
-      console.log('📝 New or updated apps:');
-      for (const app of differences.plugins.item) {
-        const oldApp = oldConfig?.plugins?.item?.find(
-          a => (a.internalName || a.name) === (app.internalName || app.name)
-        );
-        if (oldApp && oldApp.version !== app.version) {
-          console.log(`   • ${app.name}: ${oldApp.version} → ${app.version} (updated)`);
-        } else {
-          console.log(`   • ${app.name} v${app.version} (new)`);
-        }
+      console.log('📝 Changes:');
+      for (const change of diff.changes) {
+        console.log(`   • ${describeChange(change)}`);
       }
     }
     console.log();
 
+    // Save the change report of this fetch
+    await saveJson(buildChangeReport(diff, oldConfig, json), reportPath);
+
+    // Keep track of packages removed from the feed (TRACK_WITHDRAWN)
+    if (isWithdrawnTrackingEnabled()) {
+      const withdrawn = await loadWithdrawnCatalog();
+      const { added, restored } = updateWithdrawnCatalog(withdrawn, diff.changes, json);
+      await saveJson(withdrawn, WITHDRAWN_FILE);
+      console.log(`✓ Withdrawn packages: ${withdrawn.entries.length} (${added} new, ${restored} listed again)`);
+    }
+    console.log();
+
     // Save full config
-    await saveJson(json, outputPath);
+    await saveJson(json, outputPath, ledger => ledger.recordDiscovered(json));
 
     // Save differences to update-apps.json
     if (diffCount > 0) {
       console.log(`💾 Saving ${diffCount} updates to: ${updatePath}`);
-      await saveJson(differences, updatePath);
+      await saveJson(differences, updatePath, ledger => ledger.saveSnapshot('update-apps.json', differences));
       const stats = Bun.file(updatePath).size;
       console.log(`✓ Saved ${(stats / 1024).toFixed(1)} KB to ${updatePath}`);
     } else {
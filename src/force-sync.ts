@@ -10,6 +10,7 @@
  *   bun run src/force-sync.ts
  */
 
+import { writeJsonState } from './ledger';
 import type { AppsConfig } from './types/index';
 
 async function main() {
@@ -38,7 +39,7 @@ async function main() {
     console.log(`📦 Total packages across all platforms: ${totalPlatforms}`);
 
     // Write to update-apps.json
-    await Bun.write(updatePath, JSON.stringify(config, null, 2));
+    await writeJsonState(updatePath, config, ledger => ledger.saveSnapshot('update-apps.json', config));
 
     const stats = Bun.file(updatePath).size;
     console.log(`\n✅ Successfully synced to ${updatePath}`);
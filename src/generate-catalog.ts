@@ -0,0 +1,67 @@
+#!/usr/bin/env bun
+
+/**
+ * Generate Package Catalog
+ *
+ * Generates PACKAGES.md and catalog.json from config/metadata-uploaded.json
+ *
+ * Features:
+ * - Per-product tables of architecture, filename, size and download links
+ *   (primary link, short URL and every permanent mirror)
+ * - Merges into the previous catalog.json, so packages uploaded in earlier
+ *   runs stay listed
+ * - Optionally uploads both files to the root folder of every storage backend
+ *   (CATALOG_UPLOAD=true)
+ * - upload.ts runs the same generation when CATALOG_UPLOAD=true, so this
+ *   script is only needed without it or when nothing was uploaded
+ *
+ * Usage:
+ *   bun run src/generate-catalog.ts
+ *
+ * Environment:
+ *   CATALOG_DIR    - Output directory (default: config)
+ *   CATALOG_UPLOAD - Upload the catalog to every storage backend (default: false)
+ *   TIMEZONE       - Timezone for displayed dates (default: UTC)
+ */
+
+import { join } from 'path';
+import { loadEnv } from './env';
+import { generateCatalog } from './catalog';
+import type { UploadedPackage } from './types';
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Generate Package Catalog');
+  console.log('='.repeat(60));
+
+  await loadEnv();
+
+  const metadataPath = join(process.cwd(), 'config', 'metadata-uploaded.json');
+
+  // Load uploaded packages of the last run (may not exist if nothing was uploaded)
+  let packages: UploadedPackage[] = [];
+  const metadataFile = Bun.file(metadataPath);
+  if (await metadataFile.exists()) {
+    packages = await metadataFile.json();
+    console.log(`\n📋 Loaded ${packages.length} entries from metadata-uploaded.json`);
+  } else {
+    console.log('\n⚠ metadata-uploaded.json not found, regenerating from the previous catalog');
+  }
+
+  if (!await generateCatalog(packages)) {
+    return;
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('✓ Catalog generated');
+  console.log('='.repeat(60));
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
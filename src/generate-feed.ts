@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+
+/**
+ * Generate Package Feeds
+ *
+ * Adds the packages of the last upload run (config/metadata-uploaded.json)
+ * to the feed state (config/feed-state.json) and renders the feeds
+ *
+ * Output:
+ * - atom.xml, rss.xml: all products
+ * - products/<product>.xml: Atom feed of one product
+ *
+ * Usage:
+ *   bun run src/generate-feed.ts
+ *
+ * Environment:
+ *   FEED_DIR          - Output directory (default: feeds)
+ *   FEED_MAX_ENTRIES  - Number of entries kept in the state (default: 200)
+ *   FEED_UPLOAD       - Upload the feeds to the storage backends (default: false)
+ *   FEED_REMOTE_DIR   - Remote folder of the feeds (default: feeds)
+ *   FEED_BASE_URL     - Public URL of the feed folder, for self links
+ *                       (default: URL of the first backend uploaded to)
+ *   TIMEZONE          - Timezone for displayed dates (default: UTC)
+ */
+
+import { dirname, join } from 'path';
+import { loadEnv, getEnvOrDefault } from './env';
+import {
+  createFeedState,
+  getProductFeedPath,
+  renderAtomFeed,
+  renderRssFeed,
+  updateFeedState,
+  DEFAULT_FEED_MAX_ENTRIES,
+  type FeedState,
+} from './feed';
+import { getTimeZone } from './remote-path';
+import { createStorageBackends, joinRemotePath } from './storage';
+import { getPathAddressableBackends, publishFiles } from './storage/publish';
+import { ensureDir, replaceDirectory, writeFileAtomic } from './utils/file';
+import type { UploadedPackage } from './types';
+
+const STATE_FILE = join(process.cwd(), 'config', 'feed-state.json');
+
+/**
+ * Load the feed state, or start a new one
+ */
+async function loadFeedState(): Promise<FeedState> {
+  const file = Bun.file(STATE_FILE);
+  if (await file.exists()) {
+    try {
+      return await file.json();
+    } catch (error) {
+      console.warn(`  ⚠ Failed to load feed state, starting a new one: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return createFeedState();
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Generate Package Feeds');
+  console.log('='.repeat(60));
+
+  await loadEnv();
+
+  const outputDir = join(process.cwd(), getEnvOrDefault('FEED_DIR', 'feeds'));
+  const maxEntries = parseInt(getEnvOrDefault('FEED_MAX_ENTRIES', String(DEFAULT_FEED_MAX_ENTRIES)), 10);
+  const upload = getEnvOrDefault('FEED_UPLOAD', 'false') === 'true';
+  const remoteDir = getEnvOrDefault('FEED_REMOTE_DIR', 'feeds');
+  const timeZone = getTimeZone();
+
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(`Invalid FEED_MAX_ENTRIES: ${process.env.FEED_MAX_ENTRIES}`);
+  }
+
+  let packages: UploadedPackage[] = [];
+  const metadataFile = Bun.file(join(process.cwd(), 'config', 'metadata-uploaded.json'));
+  if (await metadataFile.exists()) {
+    packages = await metadataFile.json();
+  }
+
+  const state = await loadFeedState();
+  const added = updateFeedState(state, packages, maxEntries);
+  // Feed output rather than package state, so not recorded in the ledger
+  await ensureDir(dirname(STATE_FILE));
+  await writeFileAtomic(STATE_FILE, JSON.stringify(state, null, 2));
+
+  console.log(`\n📋 Uploaded packages: ${packages.length}`);
+  console.log(`✓ ${added} new entries, ${state.entries.length} in the feed`);
+
+  const backends = upload
+    ? getPathAddressableBackends(createStorageBackends(), joinRemotePath(remoteDir, 'atom.xml'))
+    : [];
+  const baseUrl = (process.env.FEED_BASE_URL || backends[0]?.getPublicUrl(joinRemotePath(remoteDir)) || '')
+    .replace(/\/+$/, '');
+  const selfUrl = (path: string) => (baseUrl ? `${baseUrl}/${path}` : undefined);
+
+  // Render the global feeds and one feed per product
+  const files = [
+    {
+      path: 'atom.xml',
+      content: renderAtomFeed({ id: 'urn:qnap-sync:feed', title: 'QNAP Software Packages', selfUrl: selfUrl('atom.xml') }, state.entries, timeZone),
+    },
+    {
+      path: 'rss.xml',
+      content: renderRssFeed({ id: 'urn:qnap-sync:feed', title: 'QNAP Software Packages', selfUrl: selfUrl('rss.xml') }, state.entries, timeZone),
+    },
+  ];
+
+  const products = [...new Set(state.entries.map(e => e.productName))].sort();
+  for (const product of products) {
+    const path = getProductFeedPath(product);
+    files.push({
+      path,
+      content: renderAtomFeed(
+        { id: `urn:qnap-sync:feed:${encodeURIComponent(product)}`, title: `${product} - QNAP Software Packages`, selfUrl: selfUrl(path) },
+        state.entries.filter(e => e.productName === product),
+        timeZone
+      ),
+    });
+  }
+
+  await replaceDirectory(outputDir, files);
+  console.log(`✓ Feeds: ${files.length} files (${products.length} products)`);
+  console.log(`  Directory: ${outputDir}`);
+
+  if (backends.length > 0) {
+    console.log(`\n📤 Uploading feeds to ${backends.map(b => b.name).join(', ')}...`);
+    await publishFiles(backends, files.map(file => ({
+      localPath: join(outputDir, file.path),
+      folderPath: joinRemotePath(remoteDir, dirname(file.path) === '.' ? '' : dirname(file.path)),
+    })));
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('✓ Feeds generated');
+  console.log('='.repeat(60));
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
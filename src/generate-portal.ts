@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+
+/**
+ * Generate Download Portal
+ *
+ * Builds a static HTML download site from config/metadata-uploaded.json,
+ * the previous catalog (config/catalog.json) and config/apps.json
+ *
+ * Features:
+ * - Index page with full-text search and architecture filter
+ * - Per-product pages with CTFile, short URL and mirror links and checksums
+ * - Optionally uploads the site to every storage backend whose files have
+ *   path-based URLs (PORTAL_UPLOAD=true); CTFile is skipped because its
+ *   ID-based links can't serve relative links between pages
+ *
+ * Usage:
+ *   bun run src/generate-portal.ts
+ *
+ * Environment:
+ *   PORTAL_DIR        - Output directory (default: portal)
+ *   PORTAL_UPLOAD     - Upload the site to the storage backends (default: false)
+ *   PORTAL_REMOTE_DIR - Remote folder of the site (default: portal)
+ *   TIMEZONE          - Timezone for displayed dates (default: UTC)
+ */
+
+import { dirname, join } from 'path';
+import { loadEnv, getEnvOrDefault } from './env';
+import { buildCatalog, type Catalog } from './catalog';
+import { getWithdrawnDates, loadWithdrawnCatalog } from './withdrawn';
+import { renderPortal } from './portal';
+import { getTimeZone } from './remote-path';
+import { createStorageBackends, joinRemotePath } from './storage';
+import { getPathAddressableBackends, publishFiles } from './storage/publish';
+import { replaceDirectory } from './utils/file';
+import type { AppsConfig, AppItem, UploadedPackage } from './types';
+
+/**
+ * Read a JSON file, or return a default if it doesn't exist
+ */
+async function readJson<T>(filePath: string, defaultValue: T): Promise<T> {
+  const file = Bun.file(filePath);
+  if (!await file.exists()) {
+    return defaultValue;
+  }
+  return await file.json();
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Generate Download Portal');
+  console.log('='.repeat(60));
+
+  await loadEnv();
+
+  const configDir = join(process.cwd(), 'config');
+  const outputDir = join(process.cwd(), getEnvOrDefault('PORTAL_DIR', 'portal'));
+  const timeZone = getTimeZone();
+
+  const packages = await readJson<UploadedPackage[]>(join(configDir, 'metadata-uploaded.json'), []);
+  const previous = await readJson<Catalog | undefined>(join(configDir, 'catalog.json'), undefined);
+  const apps = (await readJson<AppsConfig | null>(join(configDir, 'apps.json'), null))?.plugins.item || [] as AppItem[];
+
+  console.log(`\n📋 Uploaded packages: ${packages.length}`);
+  console.log(`📋 Previous catalog: ${previous ? `${previous.totalFiles} files` : 'none'}`);
+  console.log(`📋 apps.json: ${apps.length} products`);
+
+  const catalog = buildCatalog(packages, previous, getWithdrawnDates(await loadWithdrawnCatalog()));
+
+  if (catalog.totalFiles === 0) {
+    console.log('\n⚠ No uploaded packages, nothing to generate');
+    return;
+  }
+
+  const pages = renderPortal(catalog, apps, timeZone);
+
+  // Replace the whole directory, so pages of removed products disappear
+  await replaceDirectory(outputDir, pages);
+
+  console.log(`\n✓ Portal: ${pages.length} pages (${catalog.totalProducts} products, ${catalog.totalFiles} files)`);
+  console.log(`  Directory: ${outputDir}`);
+
+  if (getEnvOrDefault('PORTAL_UPLOAD', 'false') === 'true') {
+    const remoteDir = getEnvOrDefault('PORTAL_REMOTE_DIR', 'portal');
+    const backends = getPathAddressableBackends(createStorageBackends(), joinRemotePath(remoteDir, 'index.html'));
+
+    if (backends.length > 0) {
+      console.log(`\n📤 Uploading portal to ${backends.map(b => b.name).join(', ')}...`);
+      await publishFiles(backends, pages.map(page => ({
+        localPath: join(outputDir, page.path),
+        folderPath: joinRemotePath(remoteDir, dirname(page.path) === '.' ? '' : dirname(page.path)),
+      })));
+
+      for (const backend of backends) {
+        console.log(`  🌐 ${backend.name}: ${backend.getPublicUrl(joinRemotePath(remoteDir, 'index.html'))}`);
+      }
+    }
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('✓ Portal generated');
+  console.log('='.repeat(60));
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
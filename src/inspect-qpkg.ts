@@ -0,0 +1,106 @@
+#!/usr/bin/env bun
+
+/**
+ * Inspect QPKG Files
+ *
+ * Prints the metadata embedded in QPKG files (qpkg.cfg, control and data
+ * archives) and checks it against the apps.json entry each file is listed
+ * under. Exits with 1 if any package disagrees with apps.json.
+ *
+ * Usage:
+ *   bun run src/inspect-qpkg.ts [file...]   # default: every .qpkg in downloads/
+ */
+
+import { basename, join } from 'path';
+import { readdir } from 'fs/promises';
+import { checkQpkgInfo, inspectQpkg } from './qpkg';
+import { getFilenameFromUrl } from './utils/file';
+import { formatBytes } from './utils/format';
+import type { AppItem, AppsConfig } from './types';
+
+/**
+ * Index apps.json entries by package file name
+ */
+async function loadAppsByFilename(configPath: string): Promise<Map<string, AppItem>> {
+  const index = new Map<string, AppItem>();
+  const file = Bun.file(configPath);
+  if (!await file.exists()) {
+    return index;
+  }
+
+  const config: AppsConfig = await file.json();
+  for (const app of config.plugins.item) {
+    for (const platform of app.platform) {
+      index.set(getFilenameFromUrl(platform.location), app);
+    }
+  }
+  return index;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  let files = process.argv.slice(2);
+  if (files.length === 0) {
+    const downloadsDir = join(process.cwd(), 'downloads');
+    files = (await readdir(downloadsDir))
+      .filter(name => name.endsWith('.qpkg'))
+      .sort()
+      .map(name => join(downloadsDir, name));
+  }
+
+  const apps = await loadAppsByFilename(join(process.cwd(), 'config', 'apps.json'));
+  let flagged = 0;
+
+  for (const filePath of files) {
+    const filename = basename(filePath);
+    console.log(`\n📦 ${filename}`);
+
+    let issues: string[];
+    try {
+      const info = await inspectQpkg(filePath);
+      console.log(`  Name: ${info.name || '-'}${info.displayName ? ` (${info.displayName})` : ''}`);
+      console.log(`  Version: ${info.version || '-'}`);
+      console.log(`  Firmware: ${info.minFirmware || '-'} ~ ${info.maxFirmware || '-'}`);
+      if (info.architecture) {
+        console.log(`  Architecture: ${info.architecture}`);
+      }
+      console.log(`  Control files: ${info.controlFiles.join(', ')}`);
+      if (info.data) {
+        const listing = info.data.entries !== undefined
+          ? `, ${info.data.entries} files, ${formatBytes(info.data.size || 0)}: ${info.data.topLevel?.join(', ')}`
+          : '';
+        console.log(`  Data: ${info.data.format}${listing}`);
+      }
+
+      const app = apps.get(filename);
+      issues = app
+        ? checkQpkgInfo(info, { name: app.internalName || app.name, version: app.version, filename })
+        : [];
+      if (!app) {
+        console.log('  ℹ️  Not listed in apps.json');
+      }
+    } catch (error) {
+      issues = [`Can't read package contents: ${error instanceof Error ? error.message : error}`];
+    }
+
+    for (const issue of issues) {
+      console.log(`  ⚠ ${issue}`);
+    }
+    if (issues.length > 0) {
+      flagged++;
+    }
+  }
+
+  console.log(`\n${flagged > 0 ? '⚠' : '✓'} ${files.length} package(s) inspected, ${flagged} flagged`);
+  if (flagged > 0) {
+    process.exit(1);
+  }
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,594 @@
+/**
+ * State Ledger
+ *
+ * A single SQLite database (config/ledger.db) that tracks every package file
+ * through its life cycle:
+ *
+ *   discovered → downloaded → verified → uploaded → published
+ *
+ * - discovered: listed in the QNAP feed (apps.json)
+ * - downloaded: in metadata.json
+ * - verified: the download matched the feed signature
+ * - uploaded: recorded in upload-progress.json
+ * - published: listed in the generated catalog
+ *
+ * A package that is republished under the same file name with a new signature
+ * starts over at "discovered". The latest apps.json, update-apps.json,
+ * metadata.json and metadata-uploaded.json are kept as snapshots, so the JSON
+ * state files can be exported from the ledger (exportJsonState) and migrated
+ * into it (importJsonState).
+ *
+ * The scripts still read the JSON files, but every write of a state file goes
+ * through writeJsonState: the ledger is updated first and the file is only
+ * written if that succeeded, so the JSON files never get ahead of the ledger
+ * and can be rebuilt from it at any time. Ledger errors fail the run.
+ * Generated output (feed-state.json) and caches (CTFile folder cache, upload
+ * sessions) don't describe package state and are written directly.
+ */
+
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { getEnvOrDefault } from './env';
+import { getFilenameFromUrl, writeFileAtomic } from './utils/file';
+import type { Catalog } from './catalog';
+import type { AppsConfig, PackageMetadata, UploadedPackage, UploadProgress, UploadProgressRecord } from './types';
+
+/**
+ * Life cycle state of a package file, in order
+ */
+export type PackageState = 'discovered' | 'downloaded' | 'verified' | 'uploaded' | 'published';
+
+export const PACKAGE_STATES: PackageState[] = ['discovered', 'downloaded', 'verified', 'uploaded', 'published'];
+
+/**
+ * Default ledger location
+ */
+export const DEFAULT_LEDGER_PATH = 'config/ledger.db';
+
+/**
+ * Version of the database schema, stored in PRAGMA user_version
+ */
+const SCHEMA_VERSION = 1;
+
+/**
+ * Snapshot names of the JSON documents stored as is
+ */
+export type SnapshotName = 'apps.json' | 'update-apps.json' | 'metadata.json' | 'metadata-uploaded.json';
+
+/**
+ * Ledger entry of one package file
+ */
+export interface LedgerRecord {
+  filename: string;
+  productName?: string;
+  version?: string;
+  architecture?: string;
+  location?: string;
+  signature?: string;
+  state: PackageState;
+  discoveredAt?: string;
+  downloadedAt?: string;
+  verifiedAt?: string;
+  uploadedAt?: string;
+  publishedAt?: string;
+  metadata?: PackageMetadata;       // metadata.json entry
+  upload?: UploadProgressRecord;    // upload-progress.json entry
+  updatedAt: string;
+}
+
+/**
+ * Row as stored in SQLite
+ */
+interface PackageRow {
+  filename: string;
+  product_name: string | null;
+  version: string | null;
+  architecture: string | null;
+  location: string | null;
+  signature: string | null;
+  state: PackageState;
+  discovered_at: string | null;
+  downloaded_at: string | null;
+  verified_at: string | null;
+  uploaded_at: string | null;
+  published_at: string | null;
+  metadata: string | null;
+  upload: string | null;
+  updated_at: string;
+}
+
+/**
+ * Later of two states
+ */
+function laterState(a: PackageState, b: PackageState): PackageState {
+  return PACKAGE_STATES.indexOf(a) >= PACKAGE_STATES.indexOf(b) ? a : b;
+}
+
+/**
+ * State a record falls back to when its upload is removed
+ */
+function stateWithoutUpload(row: PackageRow): PackageState {
+  if (row.verified_at) return 'verified';
+  if (row.downloaded_at) return 'downloaded';
+  return 'discovered';
+}
+
+function toRecord(row: PackageRow): LedgerRecord {
+  return {
+    filename: row.filename,
+    productName: row.product_name ?? undefined,
+    version: row.version ?? undefined,
+    architecture: row.architecture ?? undefined,
+    location: row.location ?? undefined,
+    signature: row.signature ?? undefined,
+    state: row.state,
+    discoveredAt: row.discovered_at ?? undefined,
+    downloadedAt: row.downloaded_at ?? undefined,
+    verifiedAt: row.verified_at ?? undefined,
+    uploadedAt: row.uploaded_at ?? undefined,
+    publishedAt: row.published_at ?? undefined,
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    upload: row.upload ? JSON.parse(row.upload) : undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class Ledger {
+  private db: Database;
+
+  /**
+   * @param dbPath - SQLite database file (created if missing)
+   */
+  constructor(dbPath: string) {
+    mkdirSync(dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.migrate();
+  }
+
+  /**
+   * Create or upgrade the schema
+   */
+  private migrate(): void {
+    const { user_version: version } = this.db.query('PRAGMA user_version').get() as { user_version: number };
+
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Ledger schema version ${version} is newer than supported (${SCHEMA_VERSION})`);
+    }
+
+    if (version < 1) {
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS packages (
+            filename TEXT PRIMARY KEY,
+            product_name TEXT,
+            version TEXT,
+            architecture TEXT,
+            location TEXT,
+            signature TEXT,
+            state TEXT NOT NULL,
+            discovered_at TEXT,
+            downloaded_at TEXT,
+            verified_at TEXT,
+            uploaded_at TEXT,
+            published_at TEXT,
+            metadata TEXT,
+            upload TEXT,
+            updated_at TEXT NOT NULL
+          )
+        `);
+        this.db.exec('CREATE INDEX IF NOT EXISTS packages_state ON packages (state)');
+        this.db.exec('CREATE INDEX IF NOT EXISTS packages_product ON packages (product_name)');
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS snapshots (
+            name TEXT PRIMARY KEY,
+            content TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          )
+        `);
+        this.db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+      })();
+    }
+  }
+
+  /**
+   * Run several updates in one transaction
+   */
+  transaction(update: () => void): void {
+    this.db.transaction(update)();
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private getRow(filename: string): PackageRow | null {
+    return this.db.query('SELECT * FROM packages WHERE filename = ?').get(filename) as PackageRow | null;
+  }
+
+  /**
+   * Insert a record, or restart it when the file was republished with a new signature
+   * @returns The current row
+   */
+  private ensureRow(filename: string, signature: string | undefined, now: string): PackageRow {
+    const row = this.getRow(filename);
+
+    if (!row) {
+      this.db.query(
+        'INSERT INTO packages (filename, signature, state, updated_at) VALUES (?, ?, ?, ?)'
+      ).run(filename, signature ?? null, 'discovered', now);
+      return this.getRow(filename)!;
+    }
+
+    if (signature && row.signature && row.signature !== signature) {
+      this.db.query(`
+        UPDATE packages SET signature = ?, state = 'discovered', discovered_at = NULL, downloaded_at = NULL,
+          verified_at = NULL, uploaded_at = NULL, published_at = NULL, metadata = NULL, upload = NULL, updated_at = ?
+        WHERE filename = ?
+      `).run(signature, now, filename);
+      return this.getRow(filename)!;
+    }
+
+    return row;
+  }
+
+  /**
+   * Record the packages listed in the QNAP feed and keep apps.json as a snapshot
+   * @returns Number of package files seen for the first time (or republished)
+   */
+  recordDiscovered(config: AppsConfig, discoveredAt: string = new Date().toISOString()): number {
+    let added = 0;
+
+    this.db.transaction(() => {
+      for (const app of config.plugins?.item || []) {
+        for (const platform of app.platform) {
+          const filename = getFilenameFromUrl(platform.location);
+          const row = this.ensureRow(filename, platform.signature, discoveredAt);
+          if (!row.discovered_at) {
+            added++;
+          }
+
+          this.db.query(`
+            UPDATE packages SET product_name = ?, version = ?, architecture = ?, location = ?, signature = ?,
+              discovered_at = COALESCE(discovered_at, ?), updated_at = ?
+            WHERE filename = ?
+          `).run(app.name, app.version, platform.platformID, platform.location, platform.signature,
+            discoveredAt, discoveredAt, filename);
+        }
+      }
+      this.saveSnapshot('apps.json', config, discoveredAt);
+    })();
+
+    return added;
+  }
+
+  /**
+   * Record downloaded packages (metadata.json entries)
+   */
+  recordDownloaded(packages: PackageMetadata[]): void {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const meta of packages) {
+        const row = this.ensureRow(meta.filename, meta.signature, now);
+        const verified = meta.signatureStatus === 'verified';
+        const state = laterState(row.state, verified ? 'verified' : 'downloaded');
+
+        this.db.query(`
+          UPDATE packages SET product_name = ?, version = ?, architecture = ?, location = ?, signature = ?,
+            state = ?, discovered_at = MIN(COALESCE(discovered_at, ?), ?), downloaded_at = ?,
+            verified_at = CASE WHEN ? THEN COALESCE(verified_at, ?) ELSE verified_at END,
+            metadata = ?, updated_at = ?
+          WHERE filename = ?
+        `).run(meta.productName, meta.version, meta.architecture, meta.downloadUrl, meta.signature,
+          state, meta.downloadDate, meta.downloadDate, meta.downloadDate, verified ? 1 : 0, meta.downloadDate,
+          JSON.stringify(meta), now, meta.filename);
+      }
+    })();
+  }
+
+  /**
+   * Record the upload of one file (upload-progress.json entry)
+   */
+  recordUpload(filename: string, record: UploadProgressRecord): void {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      const row = this.ensureRow(filename, record.signature, now);
+      this.db.query(`
+        UPDATE packages SET state = ?, uploaded_at = ?, upload = ?, updated_at = ? WHERE filename = ?
+      `).run(laterState(row.state, 'uploaded'), record.uploadDate, JSON.stringify(record), now, filename);
+    })();
+  }
+
+  /**
+   * Replace all upload records with the given upload progress
+   * Files no longer in the progress (e.g., removed by check-upload) fall back
+   * to their state before the upload
+   */
+  syncUploads(progress: UploadProgress): void {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      const uploaded = this.db.query('SELECT * FROM packages WHERE upload IS NOT NULL').all() as PackageRow[];
+      for (const row of uploaded) {
+        if (!progress[row.filename]) {
+          this.db.query(`
+            UPDATE packages SET state = ?, uploaded_at = NULL, published_at = NULL, upload = NULL, updated_at = ?
+            WHERE filename = ?
+          `).run(stateWithoutUpload(row), now, row.filename);
+        }
+      }
+
+      for (const [filename, record] of Object.entries(progress)) {
+        this.recordUpload(filename, record);
+      }
+    })();
+  }
+
+  /**
+   * Mark the uploaded files listed in a catalog as published
+   */
+  recordPublished(catalog: Catalog): void {
+    const publishedAt = catalog.generatedAt;
+
+    this.db.transaction(() => {
+      for (const product of catalog.products) {
+        for (const entry of product.packages) {
+          this.db.query(`
+            UPDATE packages SET state = 'published', published_at = COALESCE(published_at, ?), updated_at = ?
+            WHERE filename = ? AND state IN ('uploaded', 'published')
+          `).run(publishedAt, publishedAt, entry.filename);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Store a JSON document as is
+   */
+  saveSnapshot(name: SnapshotName, content: unknown, updatedAt: string = new Date().toISOString()): void {
+    this.db.query(
+      'INSERT OR REPLACE INTO snapshots (name, content, updated_at) VALUES (?, ?, ?)'
+    ).run(name, JSON.stringify(content), updatedAt);
+  }
+
+  /**
+   * Get a stored JSON document
+   */
+  getSnapshot<T>(name: SnapshotName): T | null {
+    const row = this.db.query('SELECT content FROM snapshots WHERE name = ?').get(name) as { content: string } | null;
+    return row ? JSON.parse(row.content) : null;
+  }
+
+  /**
+   * Get the record of one file
+   */
+  get(filename: string): LedgerRecord | null {
+    const row = this.getRow(filename);
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * List records, optionally only those in one state
+   */
+  list(state?: PackageState): LedgerRecord[] {
+    const rows = state
+      ? this.db.query('SELECT * FROM packages WHERE state = ? ORDER BY product_name, filename').all(state)
+      : this.db.query('SELECT * FROM packages ORDER BY product_name, filename').all();
+    return (rows as PackageRow[]).map(toRecord);
+  }
+
+  /**
+   * Number of records per state
+   */
+  countByState(): Record<PackageState, number> {
+    const counts = Object.fromEntries(PACKAGE_STATES.map(s => [s, 0])) as Record<PackageState, number>;
+    const rows = this.db.query('SELECT state, COUNT(*) AS count FROM packages GROUP BY state').all() as { state: PackageState; count: number }[];
+    for (const row of rows) {
+      counts[row.state] = row.count;
+    }
+    return counts;
+  }
+}
+
+let sharedLedger: Ledger | null = null;
+
+/**
+ * Path of the ledger database (LEDGER_PATH, default: config/ledger.db)
+ */
+function getLedgerPath(): string {
+  return join(process.cwd(), getEnvOrDefault('LEDGER_PATH', DEFAULT_LEDGER_PATH));
+}
+
+/**
+ * Get the ledger of this run, opened once at LEDGER_PATH (default: config/ledger.db)
+ */
+export function getLedger(): Ledger {
+  if (!sharedLedger) {
+    sharedLedger = new Ledger(getLedgerPath());
+  }
+  return sharedLedger;
+}
+
+/**
+ * Get the ledger for lookups, without creating it
+ * @returns null if there is no ledger yet
+ */
+export function findLedger(): Ledger | null {
+  return (sharedLedger || existsSync(getLedgerPath())) ? getLedger() : null;
+}
+
+/**
+ * Write a JSON state file of config/ and record the change in the ledger
+ *
+ * The ledger is updated first, in one transaction; the file is written
+ * (atomically) only if that succeeded. Errors are thrown.
+ *
+ * @param update - Records the new content in the ledger
+ */
+export async function writeJsonState(
+  filePath: string,
+  content: unknown,
+  update: (ledger: Ledger) => void
+): Promise<void> {
+  const ledger = getLedger();
+  ledger.transaction(() => update(ledger));
+  await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
+}
+
+/**
+ * Rebuild an uploaded package from its metadata and upload record
+ */
+function toUploadedPackage(metadata: PackageMetadata, upload: UploadProgressRecord, downloadsDir: string): UploadedPackage {
+  const pkg: UploadedPackage = {
+    ...metadata,
+    localPath: join(downloadsDir, metadata.filename),
+    primaryUrl: upload.primaryUrl,
+    primaryShortUrl: upload.primaryShortUrl,
+    primaryFolderUrl: upload.primaryFolderUrl,
+    ctfileUrl: upload.ctfileUrl,
+    ctfileShortUrl: upload.ctfileShortUrl,
+    ctfileFolderUrl: upload.ctfileFolderUrl,
+    uploadDate: upload.uploadDate,
+    replicas: upload.replicas,
+  };
+
+  for (const [name, replica] of Object.entries(upload.replicas || {})) {
+    if (replica.status !== 'uploaded') continue;
+    if (name === 'webdav') pkg.webdavUrl = replica.url;
+    if (name === 'local') pkg.localMirrorUrl = replica.url;
+    if (name === 's3') {
+      pkg.s3Url = replica.url;
+      pkg.s3UrlExpiresAt = replica.expiresAt;
+    }
+  }
+
+  return pkg;
+}
+
+/**
+ * Read a JSON file, or null if it doesn't exist
+ */
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  const file = Bun.file(filePath);
+  return await file.exists() ? await file.json() : null;
+}
+
+/**
+ * Summary of an import
+ */
+export interface ImportSummary {
+  discovered: number;
+  downloaded: number;
+  uploaded: number;
+  published: number;
+}
+
+/**
+ * Import the JSON state files of a config directory into the ledger
+ *
+ * Reads apps.json, update-apps.json, metadata.json, metadata-uploaded.json,
+ * upload-progress.json and catalog.json (missing files are skipped).
+ * Importing the same files again changes nothing.
+ */
+export async function importJsonState(ledger: Ledger, configDir: string): Promise<ImportSummary> {
+  const summary: ImportSummary = { discovered: 0, downloaded: 0, uploaded: 0, published: 0 };
+
+  const apps = await readJsonFile<AppsConfig>(join(configDir, 'apps.json'));
+  if (apps) {
+    ledger.recordDiscovered(apps);
+    summary.discovered = apps.plugins?.item?.reduce((sum, app) => sum + app.platform.length, 0) || 0;
+  }
+
+  const updates = await readJsonFile<AppsConfig>(join(configDir, 'update-apps.json'));
+  if (updates) {
+    ledger.saveSnapshot('update-apps.json', updates);
+  }
+
+  const currentMetadata = await readJsonFile<PackageMetadata[]>(join(configDir, 'metadata.json'));
+  if (currentMetadata) {
+    ledger.saveSnapshot('metadata.json', currentMetadata);
+  }
+
+  const lastUpload = await readJsonFile<UploadedPackage[]>(join(configDir, 'metadata-uploaded.json'));
+  if (lastUpload) {
+    ledger.saveSnapshot('metadata-uploaded.json', lastUpload);
+  }
+
+  // metadata-uploaded.json also carries the metadata of files uploaded in the last run
+  const metadata = new Map<string, PackageMetadata>();
+  for (const name of ['metadata-uploaded.json', 'metadata.json']) {
+    for (const meta of await readJsonFile<PackageMetadata[]>(join(configDir, name)) || []) {
+      const { localPath, primaryUrl, primaryShortUrl, primaryFolderUrl, ctfileUrl, ctfileShortUrl, ctfileFolderUrl,
+        uploadDate, webdavUrl, s3Url, s3UrlExpiresAt, localMirrorUrl, uploadMethod, uploadError, replicas, ...packageMetadata } = meta as UploadedPackage;
+      metadata.set(meta.filename, packageMetadata);
+    }
+  }
+  ledger.recordDownloaded([...metadata.values()]);
+  summary.downloaded = metadata.size;
+
+  const progress = await readJsonFile<UploadProgress>(join(configDir, 'upload-progress.json'));
+  if (progress) {
+    ledger.syncUploads(progress);
+    summary.uploaded = Object.keys(progress).length;
+  }
+
+  const catalog = await readJsonFile<Catalog>(join(configDir, 'catalog.json'));
+  if (catalog) {
+    ledger.recordPublished(catalog);
+    summary.published = catalog.totalFiles;
+  }
+
+  return summary;
+}
+
+/**
+ * Write the JSON state files from the ledger, for scripts and tools that read them
+ *
+ * Files are written atomically. metadata-uploaded.json lists every uploaded
+ * file, not only those of the last run.
+ *
+ * @returns Paths of the written files
+ */
+export async function exportJsonState(ledger: Ledger, configDir: string, downloadsDir: string): Promise<string[]> {
+  const records = ledger.list();
+  const written: string[] = [];
+
+  const write = async (name: string, content: unknown) => {
+    const filePath = join(configDir, name);
+    await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
+    written.push(filePath);
+  };
+
+  mkdirSync(configDir, { recursive: true });
+
+  for (const name of ['apps.json', 'update-apps.json'] as SnapshotName[]) {
+    const snapshot = ledger.getSnapshot(name);
+    if (snapshot) {
+      await write(name, snapshot);
+    }
+  }
+
+  // metadata.json lists the files in downloads/; the records also keep files removed since
+  const downloaded = records.filter(r => r.metadata);
+  await write('metadata.json', ledger.getSnapshot('metadata.json') ?? downloaded.map(r => r.metadata));
+
+  const progress: UploadProgress = {};
+  for (const record of records) {
+    if (record.upload) {
+      progress[record.filename] = record.upload;
+    }
+  }
+  await write('upload-progress.json', progress);
+
+  await write('metadata-uploaded.json', downloaded
+    .filter(r => r.upload)
+    .map(r => toUploadedPackage(r.metadata!, r.upload!, downloadsDir)));
+
+  return written;
+}
@@ -0,0 +1,106 @@
+#!/usr/bin/env bun
+
+/**
+ * Manage State Ledger
+ *
+ * Commands:
+ *   status           - Number of package files per state (default)
+ *   import           - Import the JSON state files of config/ into the ledger
+ *   export [dir]     - Write the JSON state files from the ledger (default: config)
+ *   show <filename>  - Life cycle of one package file
+ *   list <state>     - Package files in one state
+ *
+ * Usage:
+ *   bun run src/manage-ledger.ts [command]
+ *
+ * Environment:
+ *   LEDGER_PATH - Ledger database (default: config/ledger.db)
+ */
+
+import { join } from 'path';
+import { loadEnv } from './env';
+import { exportJsonState, getLedger, importJsonState, PACKAGE_STATES, type PackageState } from './ledger';
+
+/**
+ * Main function
+ */
+async function main() {
+  await loadEnv();
+
+  const [command = 'status', arg] = process.argv.slice(2);
+  const configDir = join(process.cwd(), 'config');
+  const ledger = getLedger();
+
+  try {
+    switch (command) {
+      case 'status': {
+        console.log('📒 Ledger status:');
+        for (const [state, count] of Object.entries(ledger.countByState())) {
+          console.log(`  ${state.padEnd(12)} ${count}`);
+        }
+        break;
+      }
+
+      case 'import': {
+        console.log(`📥 Importing JSON state from ${configDir}...`);
+        const summary = await importJsonState(ledger, configDir);
+        console.log(`  ✓ Discovered: ${summary.discovered}`);
+        console.log(`  ✓ Downloaded: ${summary.downloaded}`);
+        console.log(`  ✓ Uploaded: ${summary.uploaded}`);
+        console.log(`  ✓ Published: ${summary.published}`);
+        break;
+      }
+
+      case 'export': {
+        const outputDir = arg ? join(process.cwd(), arg) : configDir;
+        console.log(`📤 Exporting JSON state to ${outputDir}...`);
+        for (const filePath of await exportJsonState(ledger, outputDir, join(process.cwd(), 'downloads'))) {
+          console.log(`  ✓ ${filePath}`);
+        }
+        break;
+      }
+
+      case 'show': {
+        if (!arg) {
+          throw new Error('Usage: show <filename>');
+        }
+        const record = ledger.get(arg);
+        if (!record) {
+          throw new Error(`Not in the ledger: ${arg}`);
+        }
+        console.log(`📦 ${record.filename} (${record.productName} ${record.version}, ${record.architecture})`);
+        console.log(`  State: ${record.state}`);
+        console.log(`  Discovered: ${record.discoveredAt || '-'}`);
+        console.log(`  Downloaded: ${record.downloadedAt || '-'}`);
+        console.log(`  Verified: ${record.verifiedAt || '-'}`);
+        console.log(`  Uploaded: ${record.uploadedAt || '-'}`);
+        console.log(`  Published: ${record.publishedAt || '-'}`);
+        if (record.upload) {
+          console.log(`  URL: ${record.upload.primaryUrl || record.upload.ctfileUrl}`);
+        }
+        break;
+      }
+
+      case 'list': {
+        if (!PACKAGE_STATES.includes(arg as PackageState)) {
+          throw new Error(`Usage: list <${PACKAGE_STATES.join('|')}>`);
+        }
+        for (const record of ledger.list(arg as PackageState)) {
+          console.log(`  ${record.filename} (${record.productName} ${record.version})`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  } finally {
+    ledger.close();
+  }
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
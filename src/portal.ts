@@ -0,0 +1,224 @@
+/**
+ * Download Portal
+ *
+ * Renders a static HTML site from the package catalog and apps.json:
+ *
+ * - index.html: every mirrored package with full-text search (product,
+ *   version, file name, architecture) and an architecture filter
+ * - products/<product>.html: one page per product with all download links
+ *   (primary, short URL and each mirror), checksums and publish dates
+ *
+ * Pages only use relative links and inline CSS/JS, so the directory can be
+ * served from any web server, bucket or WebDAV share as is.
+ */
+
+import { formatBytes, formatDateTime } from './utils/format';
+import { escapeHtml } from './utils/html';
+import { getFilenameFromUrl } from './utils/file';
+import { getProductFolderName } from './remote-path';
+import type { Catalog, CatalogEntry, CatalogProduct } from './catalog';
+import type { AppItem } from './types';
+
+/**
+ * Generated file, relative to the portal directory
+ */
+export interface PortalPage {
+  path: string;
+  content: string;
+}
+
+/**
+ * Display names of the storage backends
+ */
+const MIRROR_LABELS: Record<string, string> = {
+  ctfile: 'CTFile',
+  webdav: 'WebDAV',
+  s3: 'S3',
+  local: 'Mirror',
+};
+
+const STYLE = `body{font-family:system-ui,sans-serif;margin:0 auto;max-width:1100px;padding:16px;color:#222}
+a{color:#0969da}header{margin-bottom:16px}h1{margin:0 0 4px}.meta{color:#666;font-size:14px}
+.filters{display:flex;gap:8px;margin:16px 0}.filters input{flex:1;padding:6px}.filters select{padding:6px}
+table{border-collapse:collapse;width:100%}th,td{text-align:left;padding:6px 8px;border-bottom:1px solid #ddd;vertical-align:top}
+th{background:#f6f8fa}td.links a{margin-right:8px;white-space:nowrap}code{font-size:12px;word-break:break-all}
+ul.products{columns:3;padding-left:18px}`;
+
+/**
+ * Search and architecture filter over rows with data-search / data-arch attributes
+ * A ?q= query parameter pre-fills the search
+ */
+const FILTER_SCRIPT = `(function(){
+var q=document.getElementById('q'),arch=document.getElementById('arch'),count=document.getElementById('count');
+function apply(){
+var terms=q.value.toLowerCase().split(/\\s+/).filter(Boolean),a=arch.value,shown=0;
+document.querySelectorAll('tr[data-search]').forEach(function(row){
+var ok=terms.every(function(t){return row.getAttribute('data-search').indexOf(t)!==-1;})&&(!a||row.getAttribute('data-arch')===a);
+row.hidden=!ok;if(ok)shown++;});
+count.textContent=shown;}
+var initial=new URLSearchParams(location.search).get('q');if(initial)q.value=initial;
+q.addEventListener('input',apply);arch.addEventListener('change',apply);apply();})();`;
+
+/**
+ * Wrap page content in the common layout
+ */
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Search box, architecture filter and visible row count
+ */
+function renderFilters(architectures: string[], total: number): string {
+  const options = architectures
+    .map(arch => `<option value="${escapeHtml(arch)}">${escapeHtml(arch)}</option>`)
+    .join('');
+
+  return `<div class="filters">
+<input id="q" type="search" placeholder="Search name, version, file or architecture" autofocus>
+<select id="arch"><option value="">All architectures</option>${options}</select>
+</div>
+<p class="meta">Showing <span id="count">${total}</span> of ${total} files</p>`;
+}
+
+/**
+ * Download links of one file
+ */
+function renderLinks(entry: CatalogEntry): string {
+  const links = [`<a href="${escapeHtml(entry.downloadUrl)}">Download</a>`];
+
+  if (entry.shortUrl) {
+    links.push(`<a href="${escapeHtml(entry.shortUrl)}">Short URL</a>`);
+  }
+  for (const [name, url] of Object.entries(entry.mirrors)) {
+    if (url !== entry.downloadUrl) {
+      links.push(`<a href="${escapeHtml(url)}">${escapeHtml(MIRROR_LABELS[name] || name)}</a>`);
+    }
+  }
+
+  return links.join('');
+}
+
+/**
+ * Text a row is matched against by the search box
+ */
+function searchText(entry: CatalogEntry, platformID?: string): string {
+  return [entry.productName, entry.version, entry.filename, entry.architecture, platformID]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Page file name of a product
+ */
+function productPagePath(product: CatalogProduct): string {
+  return `products/${getProductFolderName(product.name) || 'product'}.html`;
+}
+
+/**
+ * Render the portal pages
+ *
+ * @param catalog - Merged package catalog
+ * @param apps - Items of apps.json (platform IDs and products not mirrored yet)
+ * @param timeZone - Timezone for displayed dates
+ */
+export function renderPortal(catalog: Catalog, apps: AppItem[], timeZone: string = 'UTC'): PortalPage[] {
+  // File name -> QNAP platform ID (e.g., TS-NASX86), from apps.json
+  const platformIds = new Map<string, string>();
+  for (const app of apps) {
+    for (const platform of app.platform) {
+      platformIds.set(getFilenameFromUrl(platform.location), platform.platformID);
+    }
+  }
+
+  const architectures = [...new Set(catalog.products.flatMap(p => p.packages.map(e => e.architecture)))].sort();
+  const generated = `Generated ${escapeHtml(formatDateTime(catalog.generatedAt, timeZone))} (${escapeHtml(timeZone)})`;
+  const pages: PortalPage[] = [];
+
+  // Index: all packages
+  const indexRows = catalog.products.flatMap(product => product.packages.map(entry => {
+    const platformID = platformIds.get(entry.filename);
+    return `<tr data-search="${escapeHtml(searchText(entry, platformID))}" data-arch="${escapeHtml(entry.architecture)}">
+<td><a href="${productPagePath(product)}">${escapeHtml(product.name)}</a></td>
+<td>${escapeHtml(entry.version)}${entry.withdrawnAt ? '<br><span class="meta">withdrawn</span>' : ''}</td>
+<td>${escapeHtml(entry.architecture)}${platformID ? `<br><span class="meta">${escapeHtml(platformID)}</span>` : ''}</td>
+<td>${formatBytes(entry.fileSize)}</td>
+<td class="links">${renderLinks(entry)}</td>
+</tr>`;
+  }));
+
+  const mirrored = new Set(catalog.products.map(p => p.name));
+  const pending = apps.filter(app => !mirrored.has(app.name)).map(app => app.name).sort();
+
+  pages.push({
+    path: 'index.html',
+    content: renderPage('QNAP Software Packages', `<header>
+<h1>QNAP Software Packages</h1>
+<p class="meta">${catalog.totalProducts} products, ${catalog.totalFiles} files. ${generated}</p>
+</header>
+${renderFilters(architectures, catalog.totalFiles)}
+<table>
+<thead><tr><th>Product</th><th>Version</th><th>Architecture</th><th>Size</th><th>Download</th></tr></thead>
+<tbody>
+${indexRows.join('\n')}
+</tbody>
+</table>
+<h2>Products</h2>
+<ul class="products">
+${catalog.products.map(p => `<li><a href="${productPagePath(p)}">${escapeHtml(p.name)}</a> ${escapeHtml(p.version)}</li>`).join('\n')}
+</ul>
+${pending.length > 0 ? `<h2>Not mirrored yet</h2>\n<ul class="products">\n${pending.map(name => `<li>${escapeHtml(name)}</li>`).join('\n')}\n</ul>` : ''}
+<script>${FILTER_SCRIPT}</script>`),
+  });
+
+  // One page per product
+  for (const product of catalog.products) {
+    const productArchitectures = [...new Set(product.packages.map(e => e.architecture))].sort();
+    const rows = product.packages.map(entry => {
+      const platformID = platformIds.get(entry.filename);
+      const checksums = [
+        entry.md5 ? `MD5 <code>${escapeHtml(entry.md5)}</code>` : '',
+        entry.sha256 ? `SHA-256 <code>${escapeHtml(entry.sha256)}</code>` : '',
+      ].filter(Boolean).join('<br>');
+
+      return `<tr data-search="${escapeHtml(searchText(entry, platformID))}" data-arch="${escapeHtml(entry.architecture)}">
+<td>${escapeHtml(entry.architecture)}${platformID ? `<br><span class="meta">${escapeHtml(platformID)}</span>` : ''}</td>
+<td>${escapeHtml(entry.filename)}<br><span class="meta">${formatBytes(entry.fileSize)}, published ${escapeHtml(formatDateTime(entry.publishedDate, timeZone))}${entry.withdrawnAt ? `, <strong>withdrawn ${escapeHtml(formatDateTime(entry.withdrawnAt, timeZone))}</strong>` : ''}</span></td>
+<td class="links">${renderLinks(entry)}${entry.folderUrl ? `<br><a href="${escapeHtml(entry.folderUrl)}">Folder</a>` : ''}</td>
+<td>${checksums}</td>
+</tr>`;
+    });
+
+    pages.push({
+      path: productPagePath(product),
+      content: renderPage(`${product.name} - QNAP Software Packages`, `<header>
+<p><a href="../index.html">← All packages</a></p>
+<h1>${escapeHtml(product.name)}</h1>
+<p class="meta">Version ${escapeHtml(product.version)}, updated ${escapeHtml(formatDateTime(product.updatedAt, timeZone))}. ${generated}</p>
+</header>
+${renderFilters(productArchitectures, product.packages.length)}
+<table>
+<thead><tr><th>Architecture</th><th>File</th><th>Download</th><th>Checksums</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<script>${FILTER_SCRIPT}</script>`),
+    });
+  }
+
+  return pages;
+}
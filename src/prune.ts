@@ -0,0 +1,297 @@
+#!/usr/bin/env bun
+
+/**
+ * Prune Remote Storage
+ *
+ * Deletes superseded package versions from every storage backend according
+ * to a retention policy, removes their records from upload-progress.json and
+ * deletes folders left empty (e.g., old YYYY-MM folders). Files listed in
+ * the published catalog.json are always kept.
+ *
+ * Runs as a dry run unless --apply is given: the files that would be deleted
+ * are listed and nothing is changed.
+ *
+ * Usage:
+ *   bun run src/prune.ts [--keep=N] [--max-age=DAYS] [--apply]
+ *
+ * Environment:
+ *   PRUNE_KEEP_VERSIONS - Keep the N most recent versions per product and architecture
+ *   PRUNE_MAX_AGE_DAYS  - Keep versions published within the last N days
+ *   (command line options override the environment)
+ */
+
+import { join } from 'path';
+import { loadEnv } from './env';
+import { getCatalogDir, type Catalog } from './catalog';
+import { inferProductNameFromFilename, parseQpkgFilename } from './ctfile-utils';
+import { findLedger, writeJsonState, type LedgerRecord } from './ledger';
+import { getProductFolderName } from './remote-path';
+import { applyRetention, describeRetentionPolicy, getRetentionPolicy, type RetentionItem, type RetentionPolicy } from './retention';
+import { createStorageBackends, joinRemotePath, splitRemotePath, type StorageBackend } from './storage';
+import { formatBytes } from './utils/format';
+import type { ReplicaStatus, UploadProgress, UploadProgressRecord } from './types';
+
+const UPLOAD_PROGRESS_FILE = join(process.cwd(), 'config', 'upload-progress.json');
+
+/**
+ * Uploaded file the policy is applied to
+ */
+interface PruneCandidate extends RetentionItem {
+  filename: string;
+  record: UploadProgressRecord;
+  size?: number;
+}
+
+/**
+ * Parse command line options over the policy from the environment
+ */
+function parseArgs(args: string[], policy: RetentionPolicy): { policy: RetentionPolicy; apply: boolean } {
+  let apply = false;
+  const result = { ...policy };
+
+  for (const arg of args) {
+    const [name, value] = arg.split('=', 2);
+    if (name === '--apply') {
+      apply = true;
+    } else if (name === '--keep' && value) {
+      result.keepVersions = Number(value);
+    } else if (name === '--max-age' && value) {
+      result.maxAgeDays = Number(value);
+    } else {
+      throw new Error(`Unknown option: ${arg} (expected --keep=N, --max-age=DAYS, --apply)`);
+    }
+  }
+
+  for (const value of [result.keepVersions, result.maxAgeDays]) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Invalid retention value: ${value} (expected a positive integer)`);
+    }
+  }
+
+  return { policy: result, apply };
+}
+
+/**
+ * Files listed in the published catalog.json
+ * The catalog lists the latest upload of each product and architecture, which
+ * need not be the highest version (e.g. a mirrored downgrade), so these files
+ * are kept regardless of the policy
+ */
+async function loadCatalogFilenames(): Promise<Set<string>> {
+  const file = Bun.file(join(getCatalogDir(), 'catalog.json'));
+  if (!await file.exists()) {
+    return new Set();
+  }
+
+  const catalog: Catalog = await file.json();
+  return new Set(catalog.products.flatMap(product => product.packages.map(entry => entry.filename)));
+}
+
+/**
+ * Look up a file in the ledger, if it can be opened
+ */
+function getLedgerRecord(filename: string): LedgerRecord | null {
+  try {
+    return findLedger()?.get(filename) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the candidate for an upload record
+ * @returns null if product, version or architecture can't be determined
+ */
+function toCandidate(filename: string, record: UploadProgressRecord): PruneCandidate | null {
+  const { version, arch } = parseQpkgFilename(filename);
+  if (!version || !arch) {
+    return null;
+  }
+
+  const ledgerRecord = getLedgerRecord(filename);
+
+  // Group by product folder name, so records with and without ledger data match
+  const productName = getProductFolderName(ledgerRecord?.productName || inferProductNameFromFilename(filename));
+  if (!productName) {
+    return null;
+  }
+
+  return {
+    filename,
+    record,
+    productName,
+    architecture: arch,
+    version,
+    date: ledgerRecord?.metadata?.publishedDate || record.uploadDate,
+    size: ledgerRecord?.metadata?.fileSize,
+  };
+}
+
+/**
+ * Remote copies of an uploaded file, keyed by backend name
+ * Records written before replicas were tracked only know the upload month,
+ * so every backend is asked to delete the file from that folder
+ */
+function getRemoteCopies(candidate: PruneCandidate, backends: StorageBackend[]): Record<string, string> {
+  const { record } = candidate;
+
+  if (record.replicas) {
+    const copies: Record<string, string> = {};
+    for (const [name, replica] of Object.entries(record.replicas)) {
+      if (replica.status !== 'skipped') {
+        copies[name] = replica.remotePath;
+      }
+    }
+    return copies;
+  }
+
+  const remotePath = joinRemotePath(candidate.productName, record.uploadDate.substring(0, 7), candidate.filename);
+  return Object.fromEntries(backends.map(b => [b.name, remotePath]));
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Prune Remote Storage');
+  console.log('='.repeat(60));
+
+  await loadEnv();
+
+  const { policy, apply } = parseArgs(process.argv.slice(2), getRetentionPolicy('PRUNE'));
+  if (!policy.keepVersions && !policy.maxAgeDays) {
+    throw new Error('No retention policy: set PRUNE_KEEP_VERSIONS / PRUNE_MAX_AGE_DAYS or pass --keep=N / --max-age=DAYS');
+  }
+
+  console.log(`\n📋 Policy: ${describeRetentionPolicy(policy)} per product and architecture`);
+  console.log(`   Mode: ${apply ? 'apply (files will be deleted)' : 'dry run'}`);
+
+  const progressFile = Bun.file(UPLOAD_PROGRESS_FILE);
+  if (!await progressFile.exists()) {
+    console.log('\n⚠ upload-progress.json not found, nothing to prune');
+    return;
+  }
+  const progress: UploadProgress = await progressFile.json();
+
+  const candidates: PruneCandidate[] = [];
+  for (const [filename, record] of Object.entries(progress)) {
+    const candidate = toCandidate(filename, record);
+    if (candidate) {
+      candidates.push(candidate);
+    } else {
+      console.log(`  ⚠ Can't determine product/version/architecture, keeping: ${filename}`);
+    }
+  }
+
+  const catalogFiles = await loadCatalogFilenames();
+  const decisions = applyRetention(candidates, policy).map(d =>
+    !d.keep && catalogFiles.has(d.item.filename) ? { ...d, keep: true, reason: 'listed in catalog.json' } : d
+  );
+  const toDelete = decisions.filter(d => !d.keep).map(d => ({ candidate: d.item, reason: d.reason }));
+  const totalBytes = toDelete.reduce((sum, d) => sum + (d.candidate.size || 0), 0);
+
+  console.log(`\n📦 ${candidates.length} uploaded files: ${candidates.length - toDelete.length} kept, ${toDelete.length} to delete (${formatBytes(totalBytes)})`);
+
+  if (toDelete.length === 0) {
+    console.log('\n✓ Nothing to prune');
+    return;
+  }
+
+  const backends = createStorageBackends();
+  const backendsByName = new Map(backends.map(b => [b.name, b]));
+
+  console.log('');
+  for (const { candidate, reason } of toDelete) {
+    const copies = Object.keys(getRemoteCopies(candidate, backends)).join(', ');
+    console.log(`  🗑  ${candidate.filename} (${candidate.productName} ${candidate.version}, ${candidate.architecture}) - ${reason} [${copies}]`);
+  }
+
+  if (!apply) {
+    console.log('\n💡 Dry run, nothing was deleted. Run again with --apply to delete these files.');
+    return;
+  }
+
+  let deleted = 0;
+  let failed = 0;
+  const touchedFolders = new Map<string, { backend: StorageBackend; folderPath: string }>();
+
+  for (const { candidate } of toDelete) {
+    console.log(`\n🗑  ${candidate.filename}`);
+    const copies = getRemoteCopies(candidate, backends);
+
+    // Records without replicas get one per copy, so copies that can't be deleted stay tracked
+    const remaining: Record<string, ReplicaStatus> = candidate.record.replicas
+      ? { ...candidate.record.replicas }
+      : Object.fromEntries(Object.entries(copies).map(([name, remotePath]) => [
+          name,
+          { status: 'uploaded', remotePath, uploadDate: candidate.record.uploadDate, attempts: 1 },
+        ]));
+    let ok = true;
+
+    for (const [name, remotePath] of Object.entries(copies)) {
+      const backend = backendsByName.get(name);
+      if (!backend) {
+        console.log(`  ✗ ${name}: backend not configured, can't delete ${remotePath}`);
+        ok = false;
+        continue;
+      }
+
+      try {
+        await backend.delete(remotePath);
+        delete remaining[name];
+        const { folderPath } = splitRemotePath(remotePath);
+        touchedFolders.set(`${name}:${folderPath}`, { backend, folderPath });
+        console.log(`  ✓ ${name}: ${remotePath}`);
+      } catch (error) {
+        ok = false;
+        console.error(`  ✗ ${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Keep records of copies that couldn't be deleted, so the next run tries again
+    if (ok) {
+      delete progress[candidate.filename];
+      deleted++;
+    } else {
+      progress[candidate.filename] = { ...candidate.record, replicas: remaining };
+      failed++;
+    }
+    await writeJsonState(UPLOAD_PROGRESS_FILE, progress, ledger => ledger.syncUploads(progress));
+  }
+
+  // Remove folders left empty, e.g. old month folders
+  let foldersDeleted = 0;
+  for (const { backend, folderPath } of touchedFolders.values()) {
+    if (!backend.deleteFolder || !folderPath) {
+      continue;
+    }
+    try {
+      const entries = await backend.list(folderPath);
+      if (entries.length === 0) {
+        await backend.deleteFolder(folderPath);
+        foldersDeleted++;
+        console.log(`  🗂  ${backend.name}: removed empty folder ${folderPath}`);
+      }
+    } catch (error) {
+      console.warn(`  ⚠ ${backend.name}: couldn't remove ${folderPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Prune Summary');
+  console.log('='.repeat(60));
+  console.log(`  ✓ Deleted: ${deleted} files`);
+  console.log(`  🗂  Empty folders removed: ${foldersDeleted}`);
+  console.log(`  ✗ Failed (kept in upload-progress.json): ${failed}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+/**
+ * Package Publish Dates
+ *
+ * Works out when a package was published, from the best source available:
+ *
+ * 1. feed: the item's <publishedDate> in the QNAP feed (e.g. "2025/11/03")
+ * 2. last-modified: the Last-Modified header of the package URL
+ * 3. download: when the package was first downloaded
+ *
+ * A date recorded for a file is kept as long as its signature doesn't change
+ * and no better source turns up, so re-downloads don't move a release in
+ * history, catalogs or feeds.
+ */
+
+import { findLedger } from './ledger';
+import type { AppItem, PackageMetadata, PublishedDateSource } from './types';
+
+/**
+ * Sources from least to most trusted
+ */
+const SOURCE_RANK: Record<PublishedDateSource, number> = {
+  'download': 0,
+  'last-modified': 1,
+  'feed': 2,
+};
+
+/**
+ * Publish date with the source it came from
+ */
+export interface PublishedDate {
+  publishedDate: string;   // ISO 8601
+  publishedDateSource: PublishedDateSource;
+}
+
+/**
+ * Parse a date from the feed or an HTTP header into ISO 8601
+ *
+ * Accepts "YYYY/MM/DD" and "YYYY-MM-DD" (read as UTC midnight), ISO 8601 and
+ * HTTP dates.
+ *
+ * @returns undefined if the value isn't a valid date
+ */
+export function parsePublishedDate(value: string | undefined): string | undefined {
+  const text = (value || '').trim();
+  if (!text) {
+    return undefined;
+  }
+
+  const dateOnly = text.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  const date = dateOnly
+    ? new Date(Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])))
+    : new Date(text);
+
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Look up the metadata recorded for a file in the ledger, if it can be opened
+ * Covers files whose entries are no longer in metadata.json
+ */
+function getLedgerMetadata(filename: string): PackageMetadata | undefined {
+  try {
+    return findLedger()?.get(filename)?.metadata;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the publish date recorded earlier for the same file and signature
+ * Records written before sources were tracked count as download dates
+ */
+export function getRecordedPublishedDate(
+  filename: string,
+  signature: string,
+  previous: PackageMetadata | undefined
+): PublishedDate | undefined {
+  const record = previous?.signature === signature ? previous : getLedgerMetadata(filename);
+  if (!record?.publishedDate || record.signature !== signature) {
+    return undefined;
+  }
+
+  return {
+    publishedDate: record.publishedDate,
+    publishedDateSource: record.publishedDateSource || 'download',
+  };
+}
+
+/**
+ * Pick the publish date of a package
+ *
+ * @param app - Feed item the package is listed under
+ * @param recorded - Date recorded earlier for the same file and signature
+ * @param lastModified - Last-Modified header of the package URL, if known
+ * @param downloadDate - Fallback when nothing better is known
+ */
+export function resolvePublishedDate(
+  app: AppItem,
+  recorded: PublishedDate | undefined,
+  lastModified: string | undefined,
+  downloadDate: string
+): PublishedDate {
+  const feedDate = parsePublishedDate(app.publishedDate);
+  const modifiedDate = parsePublishedDate(lastModified);
+
+  const candidate: PublishedDate = feedDate
+    ? { publishedDate: feedDate, publishedDateSource: 'feed' }
+    : modifiedDate
+      ? { publishedDate: modifiedDate, publishedDateSource: 'last-modified' }
+      : { publishedDate: downloadDate, publishedDateSource: 'download' };
+
+  if (recorded && SOURCE_RANK[recorded.publishedDateSource] >= SOURCE_RANK[candidate.publishedDateSource]) {
+    return recorded;
+  }
+  return candidate;
+}
+
+/**
+ * Whether a Last-Modified lookup could improve on what is known
+ */
+export function needsLastModified(app: AppItem, recorded: PublishedDate | undefined): boolean {
+  return !parsePublishedDate(app.publishedDate)
+    && (!recorded || SOURCE_RANK[recorded.publishedDateSource] < SOURCE_RANK['last-modified']);
+}
+
+/**
+ * Get the Last-Modified header of a URL with a HEAD request
+ * @returns undefined if the request fails or the header is missing
+ */
+export async function fetchLastModified(url: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok ? response.headers.get('last-modified') || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+}
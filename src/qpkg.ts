@@ -0,0 +1,303 @@
+/**
+ * QPKG Inspector
+ *
+ * Reads the metadata embedded in a QPKG file instead of trusting its name.
+ * A QPKG built by QDK is laid out as:
+ *
+ *   [installer script][control archive][data archive][trailer]
+ *
+ * - The installer script declares its own length (`script_len=N`) and the
+ *   length of the control archive (`offset=$(expr $script_len + N)`)
+ * - The control archive (a tar holding control.tar.gz, or the tar.gz itself)
+ *   contains qpkg.cfg with QPKG_NAME, QPKG_VER, QTS_MINI_VERSION, ...
+ * - The data archive (usually tar.gz) holds the files that get installed
+ *
+ * Archives are streamed from the file, so packages are never loaded into
+ * memory as a whole.
+ */
+
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { createInflateRaw, inflateRawSync } from 'zlib';
+import { getEnvOrDefault } from './env';
+import { parseQpkgFilename } from './ctfile-utils';
+import { isTarHeader, TarReader } from './utils/tar';
+import { versionsEqual } from './version';
+import type { QpkgDataArchive, QpkgInfo } from './types';
+
+/**
+ * Bytes searched for the installer script variables
+ */
+const HEADER_SCAN_BYTES = 64 * 1024;
+
+/**
+ * Largest control archive that is read (they are a few KB in practice)
+ */
+const MAX_CONTROL_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Number of top-level paths of the data archive recorded in metadata
+ */
+const MAX_TOP_LEVEL_PATHS = 50;
+
+/**
+ * qpkg.cfg keys that may declare the package architecture
+ */
+const ARCHITECTURE_KEYS = ['QPKG_ARCH', 'QDK_BUILD_ARCH'];
+
+/**
+ * What a package is expected to contain, from its apps.json entry
+ */
+export interface QpkgExpectation {
+  name: string;
+  version: string;
+  filename: string;
+}
+
+/**
+ * Whether packages are inspected after download (QPKG_INSPECT, default: true)
+ */
+export function isQpkgInspectionEnabled(): boolean {
+  return getEnvOrDefault('QPKG_INSPECT', 'true') !== 'false';
+}
+
+/**
+ * Parse a shell-style config file (KEY="value" lines)
+ */
+export function parseQpkgConfig(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+    if (match) {
+      values[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return values;
+}
+
+/**
+ * Read a byte range of a file
+ */
+async function readRange(filePath: string, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await Bun.file(filePath).slice(start, end).arrayBuffer());
+}
+
+/**
+ * Whether bytes start with the gzip magic number
+ */
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Detect an archive format from its first bytes
+ */
+function detectFormat(bytes: Uint8Array): QpkgDataArchive['format'] {
+  if (isGzip(bytes)) return 'tar.gz';
+  if (bytes[0] === 0x37 && bytes[1] === 0x7a && bytes[2] === 0xbc && bytes[3] === 0xaf) return '7z';
+  if (bytes[0] === 0x42 && bytes[1] === 0x5a && bytes[2] === 0x68) return 'bzip2';
+  if (bytes[0] === 0xfd && bytes[1] === 0x37 && bytes[2] === 0x7a && bytes[3] === 0x58) return 'xz';
+  if (isTarHeader(bytes)) return 'tar';
+  return 'unknown';
+}
+
+/**
+ * Length of a gzip member header (RFC 1952)
+ *
+ * Gzip data is inflated as raw deflate after its header: unlike gunzip, a raw
+ * inflater stops at the end of the member and ignores what follows (the next
+ * archive or the QDK trailer).
+ */
+function getGzipHeaderLength(bytes: Uint8Array): number {
+  const flags = bytes[3];
+  let length = 10;
+  if (flags & 0x04) length += 2 + (bytes[10] | (bytes[11] << 8));   // FEXTRA
+  if (flags & 0x08) length = bytes.indexOf(0, length) + 1;          // FNAME
+  if (flags & 0x10) length = bytes.indexOf(0, length) + 1;          // FCOMMENT
+  if (flags & 0x02) length += 2;                                    // FHCRC
+  return length;
+}
+
+/**
+ * Decompress an in-memory gzip member
+ */
+function gunzipMember(bytes: Uint8Array): Uint8Array {
+  return inflateRawSync(bytes.subarray(getGzipHeaderLength(bytes)));
+}
+
+/**
+ * Stream a tar (or tar.gz) archive from a file into a reader until its end marker
+ */
+async function readTar(filePath: string, offset: number, gzip: boolean, reader: TarReader): Promise<void> {
+  const start = gzip ? offset + getGzipHeaderLength(await readRange(filePath, offset, offset + HEADER_SCAN_BYTES)) : offset;
+  const source = Readable.fromWeb(Bun.file(filePath).slice(start).stream() as WebReadableStream<Uint8Array>);
+  const stream = gzip ? source.pipe(createInflateRaw()) : source;
+
+  try {
+    for await (const chunk of stream) {
+      reader.push(chunk);
+      if (reader.done) {
+        break;
+      }
+    }
+  } finally {
+    source.destroy();
+  }
+}
+
+/**
+ * Read the control archive
+ * @returns Files of the archive and the contents of qpkg.cfg
+ */
+async function readControlArchive(
+  filePath: string,
+  offset: number,
+  length: number | undefined
+): Promise<{ files: string[]; config: string }> {
+  const end = offset + Math.min(length ?? MAX_CONTROL_BYTES, MAX_CONTROL_BYTES);
+  let archive = await readRange(filePath, offset, end);
+
+  // QDK wraps control.tar.gz in a plain tar: unwrap it first
+  if (isTarHeader(archive)) {
+    const outer = new TarReader(path => /\.(tar\.gz|tgz|tar)$/.test(path) || path.endsWith('qpkg.cfg'));
+    outer.push(archive);
+    const config = [...outer.contents].find(([path]) => path.endsWith('qpkg.cfg'));
+    if (config) {
+      return { files: outer.entries.map(e => e.path), config: new TextDecoder().decode(config[1]) };
+    }
+    const inner = [...outer.contents.values()][0];
+    if (!inner) {
+      throw new Error('Control archive holds no qpkg.cfg');
+    }
+    archive = inner;
+  }
+
+  const tar = isGzip(archive) ? gunzipMember(archive) : archive;
+  const reader = new TarReader(path => path.endsWith('qpkg.cfg'));
+  reader.push(tar);
+
+  const config = [...reader.contents].find(([path]) => path.endsWith('qpkg.cfg'));
+  if (!config) {
+    throw new Error('Control archive holds no qpkg.cfg');
+  }
+
+  return {
+    files: reader.entries.filter(e => e.type !== 'directory').map(e => e.path.replace(/^\.\//, '')),
+    config: new TextDecoder().decode(config[1]),
+  };
+}
+
+/**
+ * List the data archive
+ * Only tar and tar.gz can be listed; other formats are recorded as such
+ */
+async function readDataArchive(filePath: string, offset: number): Promise<QpkgDataArchive> {
+  const format = detectFormat(await readRange(filePath, offset, offset + 512));
+  if (format !== 'tar' && format !== 'tar.gz') {
+    return { offset, format };
+  }
+
+  const reader = new TarReader();
+  await readTar(filePath, offset, format === 'tar.gz', reader);
+
+  const topLevel = new Set<string>();
+  for (const entry of reader.entries) {
+    const first = entry.path.replace(/^\.\//, '').split('/')[0];
+    if (first && first !== '.') {
+      topLevel.add(first);
+    }
+  }
+
+  return {
+    offset,
+    format,
+    entries: reader.entries.filter(e => e.type !== 'directory').length,
+    size: reader.entries.reduce((sum, e) => sum + e.size, 0),
+    topLevel: [...topLevel].sort().slice(0, MAX_TOP_LEVEL_PATHS),
+  };
+}
+
+/**
+ * Read the metadata embedded in a QPKG file
+ *
+ * @throws Error if the file is not a QPKG or its control archive can't be read
+ */
+export async function inspectQpkg(filePath: string): Promise<QpkgInfo> {
+  const header = Buffer.from(await readRange(filePath, 0, HEADER_SCAN_BYTES)).toString('latin1');
+
+  const scriptMatch = header.match(/^script_len=(\d+)\s*$/m);
+  if (!scriptMatch) {
+    throw new Error('Not a QPKG file (no script_len in the installer header)');
+  }
+  const scriptLength = parseInt(scriptMatch[1], 10);
+
+  const offsetMatch = header.match(/^offset=\$\(\S*expr \$script_len \+ (\d+)\)/m);
+  const controlLength = offsetMatch ? parseInt(offsetMatch[1], 10) : undefined;
+
+  const control = await readControlArchive(filePath, scriptLength, controlLength);
+  const config = parseQpkgConfig(control.config);
+  const architectureKey = ARCHITECTURE_KEYS.find(key => config[key]);
+
+  return {
+    name: config.QPKG_NAME || undefined,
+    version: config.QPKG_VER || undefined,
+    displayName: config.QPKG_DISPLAY_NAME || undefined,
+    minFirmware: config.QTS_MINI_VERSION || undefined,
+    maxFirmware: config.QTS_MAX_VERSION || undefined,
+    architecture: architectureKey ? config[architectureKey] : undefined,
+    scriptLength,
+    controlFiles: control.files,
+    // Without the control length the data archive can't be located
+    data: controlLength !== undefined ? await readDataArchive(filePath, scriptLength + controlLength) : undefined,
+  };
+}
+
+/**
+ * Normalize an architecture name for comparison (arm-x41 = ARM_X41)
+ */
+function normalizeArchitecture(architecture: string): string {
+  return architecture.toLowerCase().replace(/-/g, '_');
+}
+
+/**
+ * Compare a package's contents with its apps.json entry
+ * @returns One message per disagreement (empty if the package matches)
+ */
+export function checkQpkgInfo(info: QpkgInfo, expected: QpkgExpectation): string[] {
+  const issues: string[] = [];
+
+  if (!info.name) {
+    issues.push('qpkg.cfg has no QPKG_NAME');
+  } else if (info.name !== expected.name) {
+    issues.push(`QPKG_NAME is "${info.name}", apps.json lists "${expected.name}"`);
+  }
+
+  if (!info.version) {
+    issues.push('qpkg.cfg has no QPKG_VER');
+  } else if (!versionsEqual(info.version, expected.version)) {
+    issues.push(`QPKG_VER is "${info.version}", apps.json lists "${expected.version}"`);
+  }
+
+  const { arch } = parseQpkgFilename(expected.filename);
+  if (info.architecture && arch && normalizeArchitecture(info.architecture) !== normalizeArchitecture(arch)) {
+    issues.push(`Architecture is "${info.architecture}", file name says "${arch}"`);
+  }
+
+  return issues;
+}
+
+/**
+ * Inspect a package and compare it with its apps.json entry
+ * A file that can't be read as a QPKG is reported as an issue, not thrown
+ */
+export async function inspectPackageFile(
+  filePath: string,
+  expected: QpkgExpectation
+): Promise<{ qpkg?: QpkgInfo; issues: string[] }> {
+  try {
+    const qpkg = await inspectQpkg(filePath);
+    return { qpkg, issues: checkQpkgInfo(qpkg, expected) };
+  } catch (error) {
+    return { issues: [`Can't read package contents: ${error instanceof Error ? error.message : error}`] };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Package Quarantine
+ *
+ * Packages that fail signature verification under the strict policy are moved
+ * out of the downloads directory into `quarantine/`, next to a
+ * `<filename>.reason.json` record explaining why. Quarantined files never
+ * enter metadata.json and are skipped by the upload step.
+ */
+
+import { join } from 'path';
+import { readdir, rename, copyFile, rm } from 'fs/promises';
+import { getEnvOrDefault } from './env';
+import { ensureDir } from './utils/file';
+import type { SignatureCheck } from './types';
+
+/**
+ * Suffix of the reason record written next to each quarantined file
+ */
+const REASON_FILE_SUFFIX = '.reason.json';
+
+/**
+ * Reason record for a quarantined package
+ */
+export interface QuarantineRecord {
+  filename: string;
+  productName: string;
+  version: string;
+  architecture: string;
+  downloadUrl: string;
+  signature: string;
+  check: SignatureCheck;
+  quarantinedDate: string;
+}
+
+/**
+ * Get quarantine directory from QUARANTINE_DIR environment variable
+ */
+export function getQuarantineDir(): string {
+  return getEnvOrDefault('QUARANTINE_DIR', 'quarantine');
+}
+
+/**
+ * Move a file, falling back to copy + delete across filesystems
+ */
+async function moveFile(sourcePath: string, targetPath: string): Promise<void> {
+  try {
+    await rename(sourcePath, targetPath);
+  } catch (error: any) {
+    if (error?.code !== 'EXDEV') throw error;
+    await copyFile(sourcePath, targetPath);
+    await rm(sourcePath, { force: true });
+  }
+}
+
+/**
+ * Move a package into quarantine and record why
+ *
+ * @param filePath - Path of the downloaded package
+ * @param record - Reason record to store next to it
+ * @param quarantineDir - Quarantine directory
+ * @returns Path of the quarantined file
+ */
+export async function quarantinePackage(
+  filePath: string,
+  record: QuarantineRecord,
+  quarantineDir: string = getQuarantineDir()
+): Promise<string> {
+  await ensureDir(quarantineDir);
+
+  const targetPath = join(quarantineDir, record.filename);
+  await moveFile(filePath, targetPath);
+  await Bun.write(
+    join(quarantineDir, `${record.filename}${REASON_FILE_SUFFIX}`),
+    JSON.stringify(record, null, 2)
+  );
+
+  return targetPath;
+}
+
+/**
+ * Load all quarantine records
+ *
+ * @param quarantineDir - Quarantine directory
+ * @returns Records keyed by package filename (empty if the directory doesn't exist)
+ */
+export async function loadQuarantineRecords(
+  quarantineDir: string = getQuarantineDir()
+): Promise<Map<string, QuarantineRecord>> {
+  const records = new Map<string, QuarantineRecord>();
+
+  let entries: string[];
+  try {
+    entries = await readdir(quarantineDir);
+  } catch {
+    return records;
+  }
+
+  for (const entry of entries) {
+    if (!entry.endsWith(REASON_FILE_SUFFIX)) continue;
+
+    try {
+      const record: QuarantineRecord = await Bun.file(join(quarantineDir, entry)).json();
+      records.set(record.filename, record);
+    } catch (error) {
+      console.warn(`  ⚠ Failed to read quarantine record ${entry}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+
+/**
+ * Query Feed History
+ *
+ * Commands:
+ *   list                        - Archived feeds (default)
+ *   diff <from> [to]            - Changes between two snapshots (to: latest)
+ *   catalog <when> [--output f] - Apps listed at a point in time; --output writes the apps.json
+ *   first-seen <app> [version]  - When each version of an app appeared and disappeared
+ *
+ * Snapshots are referenced by "latest", "first", id, cachechk, or a date or
+ * time ("2025-11-03", "2025-11-03T12:00:00Z"): the snapshot in effect then.
+ *
+ * Usage:
+ *   bun run src/query-history.ts [command]
+ */
+
+import { writeFileAtomic } from './utils/file';
+import { formatDateTime } from './utils/format';
+import { APP_CHANGE_TYPES, describeChange, findDifferences } from './apps-diff';
+import { versionsEqual } from './version';
+import {
+  findVersionHistory,
+  listFeedSnapshots,
+  loadFeedSnapshot,
+  resolveFeedSnapshot,
+  type FeedSnapshot,
+} from './feed-history';
+
+/**
+ * Resolve a snapshot reference or fail with a usable message
+ */
+function requireSnapshot(snapshots: FeedSnapshot[], ref: string): FeedSnapshot {
+  const snapshot = resolveFeedSnapshot(snapshots, ref);
+  if (!snapshot) {
+    throw new Error(`No snapshot matches "${ref}" (first snapshot: ${snapshots[0]?.fetchedAt || 'none'})`);
+  }
+  return snapshot;
+}
+
+/**
+ * Describe a snapshot in one line
+ */
+function describeSnapshot(snapshot: FeedSnapshot): string {
+  return `${formatDateTime(snapshot.fetchedAt)} (cachechk ${snapshot.cachechk})`;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const [command = 'list', ...args] = process.argv.slice(2);
+  const snapshots = await listFeedSnapshots();
+
+  if (snapshots.length === 0) {
+    throw new Error('No archived feeds in config/history (run fetch with FEED_HISTORY enabled)');
+  }
+
+  switch (command) {
+    case 'list': {
+      console.log(`🗂  ${snapshots.length} archived feed(s):`);
+      for (const snapshot of snapshots) {
+        console.log(`  ${snapshot.id}  ${describeSnapshot(snapshot)}`);
+      }
+      break;
+    }
+
+    case 'diff': {
+      if (!args[0]) {
+        throw new Error('Usage: diff <from> [to]');
+      }
+      const from = requireSnapshot(snapshots, args[0]);
+      const to = requireSnapshot(snapshots, args[1] || 'latest');
+      const diff = findDifferences(await loadFeedSnapshot(from), await loadFeedSnapshot(to));
+
+      console.log(`🔍 ${describeSnapshot(from)} → ${describeSnapshot(to)}`);
+      for (const change of diff.changes) {
+        console.log(`  • ${describeChange(change)}`);
+      }
+      const counts = APP_CHANGE_TYPES
+        .map(type => [type, diff.changes.filter(c => c.type === type).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([type, count]) => `${type}: ${count}`);
+      console.log(`\n${diff.changes.length} change(s)${counts.length > 0 ? ` (${counts.join(', ')})` : ''}`);
+      break;
+    }
+
+    case 'catalog': {
+      if (!args[0]) {
+        throw new Error('Usage: catalog <when> [--output file]');
+      }
+      const snapshot = requireSnapshot(snapshots, args[0]);
+      const config = await loadFeedSnapshot(snapshot);
+      const outputIndex = args.indexOf('--output');
+
+      if (outputIndex !== -1) {
+        const outputPath = args[outputIndex + 1];
+        if (!outputPath) {
+          throw new Error('Usage: catalog <when> --output <file>');
+        }
+        await writeFileAtomic(outputPath, JSON.stringify(config, null, 2));
+        console.log(`✓ Saved ${describeSnapshot(snapshot)} to ${outputPath}`);
+        break;
+      }
+
+      console.log(`📋 Feed as of ${args[0]}: ${describeSnapshot(snapshot)}`);
+      const items = [...config.plugins.item].sort((a, b) => a.name.localeCompare(b.name));
+      for (const app of items) {
+        console.log(`  ${app.name} ${app.version} (${app.platform.map(p => p.platformID).join(', ')})`);
+      }
+      console.log(`\n${items.length} app(s)`);
+      break;
+    }
+
+    case 'first-seen': {
+      const [app, version] = args;
+      if (!app) {
+        throw new Error('Usage: first-seen <app> [version]');
+      }
+      const history = (await findVersionHistory(snapshots, app))
+        .filter(h => !version || versionsEqual(h.version, version));
+      if (history.length === 0) {
+        throw new Error(`${app}${version ? ` ${version}` : ''} is not in any archived feed`);
+      }
+
+      for (const entry of history) {
+        console.log(`📦 ${entry.name} ${entry.version}`);
+        console.log(`  First seen: ${describeSnapshot(entry.firstSeen)}${entry.inFirstSnapshot ? ' (oldest snapshot, may be older)' : ''}`);
+        console.log(`  Last seen: ${entry.listed ? 'still listed' : describeSnapshot(entry.lastSeen)}`);
+        console.log(`  Files: ${entry.files.join(', ')}`);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+// Run
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
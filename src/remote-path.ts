@@ -0,0 +1,195 @@
+/**
+ * Remote Path Template
+ *
+ * Decides the folder a package is stored in on every backend. The layout is
+ * configured with REMOTE_PATH_TEMPLATE (default: "{product}/{month}"):
+ *
+ * - {product}        Product folder name (e.g., "Apache84")
+ * - {version}        Package version (e.g., "2465.84140")
+ * - {arch}           Architecture (e.g., "x86_64")
+ * - {month}          Month of the upload (YYYY-MM)
+ * - {publishedMonth} Month the package was published (YYYY-MM)
+ *
+ * Months are computed in TIMEZONE (default: UTC), not the runner's local clock.
+ *
+ * Existence checks don't know the upload month (and apps.json carries no
+ * publish date), so month placeholders they can't fill match any YYYY-MM
+ * folder; see findRemoteFolders.
+ */
+
+import { getEnvOrDefault } from './env';
+
+/**
+ * Default template, the layout used before templates were configurable
+ */
+export const DEFAULT_REMOTE_PATH_TEMPLATE = '{product}/{month}';
+
+/**
+ * Default timezone for month placeholders
+ */
+const DEFAULT_TIMEZONE = 'UTC';
+
+const PLACEHOLDERS = ['product', 'version', 'arch', 'month', 'publishedMonth'] as const;
+
+/**
+ * Values a template is filled with
+ */
+export interface RemotePathValues {
+  productName: string;
+  version: string;
+  architecture: string;
+  publishedDate?: string;   // ISO 8601; {publishedMonth} matches any month when unset
+  uploadDate?: string;      // ISO 8601; {month} matches any month when unset (existence checks)
+}
+
+/**
+ * Get product folder name from product name
+ * Normalizes product name for use as folder name
+ */
+export function getProductFolderName(productName: string): string {
+  return productName
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .trim();
+}
+
+/**
+ * Get the configured remote path template (REMOTE_PATH_TEMPLATE)
+ * @throws Error if the template uses an unknown placeholder
+ */
+export function getRemotePathTemplate(): string {
+  const template = getEnvOrDefault('REMOTE_PATH_TEMPLATE', DEFAULT_REMOTE_PATH_TEMPLATE).trim();
+
+  for (const [, name] of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!(PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown placeholder {${name}} in REMOTE_PATH_TEMPLATE (available: ${PLACEHOLDERS.map(p => `{${p}}`).join(', ')})`);
+    }
+  }
+  if (!template.split('/').some(segment => segment.trim())) {
+    throw new Error('REMOTE_PATH_TEMPLATE must not be empty');
+  }
+
+  return template;
+}
+
+/**
+ * Get the configured timezone (TIMEZONE, default: UTC)
+ * @throws Error if the timezone is not a valid IANA name
+ */
+export function getTimeZone(): string {
+  const timeZone = getEnvOrDefault('TIMEZONE', DEFAULT_TIMEZONE).trim();
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Invalid TIMEZONE: ${timeZone} (expected an IANA name such as UTC or Asia/Shanghai)`);
+  }
+  return timeZone;
+}
+
+/**
+ * Format a date as YYYY-MM in a timezone
+ */
+export function formatYearMonth(date: Date, timeZone: string = getTimeZone()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit' }).formatToParts(date);
+  const year = parts.find(p => p.type === 'year')!.value;
+  const month = parts.find(p => p.type === 'month')!.value;
+  return `${year}-${month}`;
+}
+
+/**
+ * Sanitize a value for use as a single path segment
+ */
+function toSegment(value: string): string {
+  return value.replace(/[\/\\]/g, '_').trim();
+}
+
+/**
+ * Fill the placeholders of one template segment
+ * Month placeholders without a date are left in place
+ */
+function fillSegment(segment: string, values: RemotePathValues, timeZone: string): string {
+  return segment.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    switch (name) {
+      case 'product':
+        return getProductFolderName(values.productName);
+      case 'version':
+        return toSegment(values.version);
+      case 'arch':
+        return toSegment(values.architecture);
+      case 'month':
+        return values.uploadDate ? formatYearMonth(new Date(values.uploadDate), timeZone) : placeholder;
+      case 'publishedMonth':
+        return values.publishedDate ? formatYearMonth(new Date(values.publishedDate), timeZone) : placeholder;
+      default:
+        return placeholder;
+    }
+  });
+}
+
+/**
+ * Build the folder a package is uploaded to
+ *
+ * @example
+ * buildRemoteFolder({ productName: 'Apache84', version: '2465.84140', architecture: 'x86_64' }, '{product}/{version}')
+ * // 'Apache84/2465.84140'
+ */
+export function buildRemoteFolder(
+  values: RemotePathValues,
+  template: string = getRemotePathTemplate(),
+  timeZone: string = getTimeZone()
+): string {
+  const filled: RemotePathValues = {
+    ...values,
+    uploadDate: values.uploadDate || new Date().toISOString(),
+    publishedDate: values.publishedDate || values.uploadDate || new Date().toISOString(),
+  };
+
+  return template
+    .split('/')
+    .map(segment => fillSegment(segment, filled, timeZone))
+    .filter(segment => segment)
+    .join('/');
+}
+
+/**
+ * Find the existing folders a package may have been uploaded to
+ *
+ * Segments whose month isn't known are matched against the subfolders of
+ * the path so far (any YYYY-MM), newest first.
+ *
+ * @param values - Package values; leave uploadDate unset to search all months
+ * @param listSubfolders - Names of the subfolders of a folder ([] if it doesn't exist)
+ */
+export async function findRemoteFolders(
+  values: RemotePathValues,
+  listSubfolders: (folderPath: string) => Promise<string[]>,
+  template: string = getRemotePathTemplate(),
+  timeZone: string = getTimeZone()
+): Promise<string[]> {
+  let paths = [''];
+
+  for (const segment of template.split('/').filter(s => s)) {
+    const filled = fillSegment(segment, values, timeZone);
+
+    if (!/\{\w+\}/.test(filled)) {
+      paths = paths.map(path => path ? `${path}/${filled}` : filled);
+      continue;
+    }
+
+    // Unknown month: match YYYY-MM in place of the placeholder
+    const pattern = new RegExp(
+      '^' + filled.split(/\{\w+\}/).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\d{4}-\\d{2}') + '$'
+    );
+
+    const expanded: string[] = [];
+    for (const path of paths) {
+      const names = (await listSubfolders(path)).filter(name => pattern.test(name)).sort().reverse();
+      expanded.push(...names.map(name => path ? `${path}/${name}` : name));
+    }
+    paths = expanded;
+  }
+
+  return paths;
+}
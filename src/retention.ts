@@ -0,0 +1,146 @@
+/**
+ * Retention Policy
+ *
+ * Decides which package versions to keep, per product and architecture:
+ *
+ * - keepVersions: keep the N highest versions
+ * - maxAgeDays: keep versions published (or uploaded) within the last N days
+ *
+ * A version is kept if any configured rule keeps it, and the highest
+ * version of each product and architecture is always kept. The catalog may
+ * link to a lower version (a mirrored downgrade), so prune.ts also keeps the
+ * files listed in catalog.json.
+ */
+
+import { getEnvOrDefault } from './env';
+import { compareVersions } from './version';
+
+/**
+ * Retention rules (at least one must be set)
+ */
+export interface RetentionPolicy {
+  keepVersions?: number;
+  maxAgeDays?: number;
+}
+
+/**
+ * A file the policy is applied to
+ */
+export interface RetentionItem {
+  productName: string;
+  architecture: string;
+  version: string;
+  date: string;   // Publish (or upload) date, ISO 8601
+}
+
+/**
+ * Decision for one file
+ */
+export interface RetentionDecision<T extends RetentionItem> {
+  item: T;
+  keep: boolean;
+  reason: string;
+}
+
+/**
+ * Parse a positive integer setting
+ */
+function parsePositiveInt(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid ${name}: ${value} (expected a positive integer)`);
+  }
+  return number;
+}
+
+/**
+ * Read a retention policy from the environment
+ *
+ * @param prefix - Variable prefix, e.g. "PRUNE" for PRUNE_KEEP_VERSIONS and PRUNE_MAX_AGE_DAYS
+ */
+export function getRetentionPolicy(prefix: string): RetentionPolicy {
+  const keepVersions = getEnvOrDefault(`${prefix}_KEEP_VERSIONS`, '');
+  const maxAgeDays = getEnvOrDefault(`${prefix}_MAX_AGE_DAYS`, '');
+
+  return {
+    keepVersions: keepVersions ? parsePositiveInt(`${prefix}_KEEP_VERSIONS`, keepVersions) : undefined,
+    maxAgeDays: maxAgeDays ? parsePositiveInt(`${prefix}_MAX_AGE_DAYS`, maxAgeDays) : undefined,
+  };
+}
+
+/**
+ * Describe a policy for logs, e.g. "keep 3 versions or 90 days"
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy): string {
+  const rules = [
+    policy.keepVersions ? `${policy.keepVersions} version(s)` : '',
+    policy.maxAgeDays ? `${policy.maxAgeDays} day(s)` : '',
+  ].filter(Boolean);
+  return rules.length > 0 ? `keep ${rules.join(' or ')}` : 'keep everything';
+}
+
+/**
+ * Apply a retention policy
+ *
+ * Versions are ordered by version number (see version.ts), so a product
+ * republished out of order still keeps its highest versions; the newest file
+ * date of a version is used for maxAgeDays. All files of a version get the
+ * same decision.
+ *
+ * @returns One decision per item, in input order
+ */
+export function applyRetention<T extends RetentionItem>(
+  items: T[],
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): RetentionDecision<T>[] {
+  if (!policy.keepVersions && !policy.maxAgeDays) {
+    throw new Error('Retention policy has no rules');
+  }
+
+  const cutoff = policy.maxAgeDays
+    ? new Date(now.getTime() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined;
+
+  // product + architecture -> version -> newest date
+  const groups = new Map<string, Map<string, string>>();
+  const groupKey = (item: RetentionItem) => `${item.productName}\u0000${item.architecture}`;
+
+  for (const item of items) {
+    const versions = groups.get(groupKey(item)) || new Map<string, string>();
+    const date = versions.get(item.version);
+    if (!date || item.date > date) {
+      versions.set(item.version, item.date);
+    }
+    groups.set(groupKey(item), versions);
+  }
+
+  // Rank of each version within its group (0 = highest version)
+  const ranks = new Map<string, number>();
+  for (const [key, versions] of groups) {
+    [...versions.entries()]
+      .sort((a, b) => compareVersions(b[0], a[0]) || b[1].localeCompare(a[1]))
+      .forEach(([version], rank) => ranks.set(`${key}\u0000${version}`, rank));
+  }
+
+  return items.map(item => {
+    const rank = ranks.get(`${groupKey(item)}\u0000${item.version}`)!;
+    const versionDate = groups.get(groupKey(item))!.get(item.version)!;
+
+    if (rank === 0) {
+      return { item, keep: true, reason: 'latest version' };
+    }
+    if (policy.keepVersions && rank < policy.keepVersions) {
+      return { item, keep: true, reason: `within the last ${policy.keepVersions} versions` };
+    }
+    if (cutoff && versionDate >= cutoff) {
+      return { item, keep: true, reason: `newer than ${policy.maxAgeDays} days` };
+    }
+
+    const reasons = [
+      policy.keepVersions ? `not among the last ${policy.keepVersions} versions` : '',
+      cutoff ? `older than ${policy.maxAgeDays} days` : '',
+    ].filter(Boolean);
+    return { item, keep: false, reason: reasons.join(', ') };
+  });
+}
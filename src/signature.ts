@@ -0,0 +1,131 @@
+/**
+ * Package Signature Verification
+ *
+ * Decodes the `signature` field published for each platform in the QNAP feed
+ * and compares it against checksums computed while downloading.
+ *
+ * QNAP publishes the package digest base64-encoded (a 16-byte MD5 encodes to
+ * 24 characters, a 32-byte SHA-256 to 44). Hex-encoded digests are accepted as
+ * well. Any other value cannot be checked and is reported as "unverifiable".
+ */
+
+import { getEnvOrDefault } from './env';
+import type { FileDigests } from './utils/hash';
+import type { SignatureCheck, SignaturePolicy } from './types';
+
+/**
+ * Digest decoded from a feed signature
+ */
+export interface DecodedSignature {
+  algorithm: 'md5' | 'sha256';
+  hex: string;
+}
+
+/**
+ * Get signature policy from SIGNATURE_POLICY environment variable (default: warn)
+ */
+export function getSignaturePolicy(): SignaturePolicy {
+  const value = getEnvOrDefault('SIGNATURE_POLICY', 'warn').trim().toLowerCase();
+  if (value === 'off' || value === 'warn' || value === 'strict') {
+    return value;
+  }
+  throw new Error(`Invalid SIGNATURE_POLICY: ${value} (expected off, warn or strict)`);
+}
+
+/**
+ * Map a raw digest length to its algorithm
+ */
+function algorithmForLength(bytes: number): DecodedSignature['algorithm'] | null {
+  if (bytes === 16) return 'md5';
+  if (bytes === 32) return 'sha256';
+  return null;
+}
+
+/**
+ * Decode a feed signature into a digest
+ *
+ * @returns Decoded digest, or null if the value is not a recognised encoding
+ *
+ * @example
+ * decodeSignature('9cWY65EkBQ75JjqSZFyLYw==')
+ * // { algorithm: 'md5', hex: 'f5c598eb9124050ef9263a92645c8b63' }
+ */
+export function decodeSignature(signature: string): DecodedSignature | null {
+  const value = (signature || '').trim();
+  if (!value) return null;
+
+  // Hex digest
+  if (/^[0-9a-f]+$/i.test(value) && value.length % 2 === 0) {
+    const algorithm = algorithmForLength(value.length / 2);
+    if (algorithm) {
+      return { algorithm, hex: value.toLowerCase() };
+    }
+  }
+
+  // Base64 digest (standard or URL-safe alphabet, padding optional)
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) {
+    const bytes = Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+    const algorithm = algorithmForLength(bytes.length);
+    if (algorithm) {
+      return { algorithm, hex: bytes.toString('hex') };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compare computed digests with the feed signature
+ *
+ * @param digests - Checksums computed while downloading
+ * @param signature - Platform.signature from apps.json
+ * @param policy - Signature policy ('off' skips the comparison)
+ */
+export function checkSignature(digests: FileDigests, signature: string, policy: SignaturePolicy): SignatureCheck {
+  if (policy === 'off') {
+    return { status: 'skipped' };
+  }
+
+  const decoded = decodeSignature(signature);
+  if (!decoded) {
+    return {
+      status: 'unverifiable',
+      reason: 'Signature is not a recognised MD5/SHA-256 encoding',
+    };
+  }
+
+  const actual = digests[decoded.algorithm];
+  if (actual === decoded.hex) {
+    return { status: 'verified', algorithm: decoded.algorithm, expected: decoded.hex, actual };
+  }
+
+  return {
+    status: 'mismatch',
+    algorithm: decoded.algorithm,
+    expected: decoded.hex,
+    actual,
+    reason: `${decoded.algorithm.toUpperCase()} mismatch`,
+  };
+}
+
+/**
+ * Print the outcome of a signature check
+ */
+export function logSignatureCheck(check: SignatureCheck): void {
+  switch (check.status) {
+    case 'verified':
+      console.log(`  ✓ Signature verified (${check.algorithm?.toUpperCase()})`);
+      break;
+    case 'mismatch':
+      console.log(`  ✗ Signature mismatch (${check.algorithm?.toUpperCase()})`);
+      console.log(`    Expected: ${check.expected}`);
+      console.log(`    Actual:   ${check.actual}`);
+      break;
+    case 'unverifiable':
+      console.log(`  ⚠ Signature unverifiable: ${check.reason}`);
+      break;
+    case 'skipped':
+      console.log('  ⏭  Signature check disabled (SIGNATURE_POLICY=off)');
+      break;
+  }
+}
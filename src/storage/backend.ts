@@ -0,0 +1,110 @@
+/**
+ * Storage Backend Interface
+ *
+ * Common contract for upload destinations (CTFile, WebDAV, ...).
+ * All paths are relative to the backend's configured root and use the
+ * `ProductName/YYYY-MM/filename` layout built by the upload script.
+ */
+
+/**
+ * Folder on a storage backend, ready to receive uploads
+ */
+export interface StorageFolder {
+  path: string;        // Folder path relative to the backend root (e.g., "Apache84/2025-11")
+  id?: string;         // Backend-specific folder ID (CTFile)
+  url?: string;        // Public folder URL, if the backend has one
+}
+
+/**
+ * Optional information that lets a backend skip work during upload
+ */
+export interface StorageUploadOptions {
+  md5?: string;        // Hex MD5 computed at download time
+  sha256?: string;     // Hex SHA-256 computed at download time
+}
+
+/**
+ * Result of a successful upload
+ */
+export interface StorageUploadResult {
+  backend: string;     // Name of the backend that stored the file
+  remotePath: string;  // File path relative to the backend root
+  url: string;         // Download URL
+  shortUrl?: string;
+  folderUrl?: string;
+  expiresAt?: string;  // Expiry of a time-limited URL (e.g., S3 presigned URL)
+}
+
+/**
+ * File or folder listed on a storage backend
+ */
+export interface StorageEntry {
+  name: string;
+  path: string;        // Path relative to the backend root
+  isFolder: boolean;
+  size?: number;
+  modified?: string;
+  id?: string;         // Backend-specific ID (CTFile)
+  url?: string;
+  etag?: string;       // Entity tag, if the backend reports one (WebDAV, S3)
+  md5?: string;        // Content MD5, if the backend's listing reports one
+  contentType?: string;
+}
+
+/**
+ * Upload destination
+ */
+export interface StorageBackend {
+  /** Backend name used in configuration and logs (e.g., "ctfile") */
+  readonly name: string;
+
+  /** Largest file this backend accepts, in bytes (undefined = no limit) */
+  readonly maxFileSize?: number;
+
+  /** Create a folder path (and its parents) if needed */
+  ensureFolder(folderPath: string): Promise<StorageFolder>;
+
+  /** Upload a local file into a folder returned by ensureFolder */
+  upload(localPath: string, folder: StorageFolder, options?: StorageUploadOptions): Promise<StorageUploadResult>;
+
+  /** Check whether a file exists */
+  exists(remotePath: string): Promise<boolean>;
+
+  /** List the direct children of a folder (empty if the folder doesn't exist) */
+  list(folderPath: string): Promise<StorageEntry[]>;
+
+  /** Delete a file */
+  delete(remotePath: string): Promise<void>;
+
+  /** Delete an empty folder (backends without real folders, like S3, don't implement this) */
+  deleteFolder?(folderPath: string): Promise<void>;
+
+  /** Public URL of a file, if it can be derived from the path alone */
+  getPublicUrl(remotePath: string): string | undefined;
+
+  /** Read bytes [start, end) of a file, for spot-checking uploads (optional) */
+  readRange?(remotePath: string, start: number, end: number): Promise<Uint8Array>;
+}
+
+/**
+ * Split a remote file path into its folder and file name
+ *
+ * @example
+ * splitRemotePath('Apache84/2025-11/Apache84_2465.84140_x86_64.qpkg')
+ * // { folderPath: 'Apache84/2025-11', fileName: 'Apache84_2465.84140_x86_64.qpkg' }
+ */
+export function splitRemotePath(remotePath: string): { folderPath: string; fileName: string } {
+  const parts = remotePath.split('/').filter(p => p);
+  const fileName = parts.pop() || '';
+  return { folderPath: parts.join('/'), fileName };
+}
+
+/**
+ * Join path segments into a remote path without leading/trailing slashes
+ */
+export function joinRemotePath(...segments: string[]): string {
+  return segments
+    .flatMap(segment => segment.split('/'))
+    .filter(p => p)
+    .join('/');
+}
@@ -0,0 +1,135 @@
+/**
+ * CTFile Storage Backend
+ *
+ * Maps path-based storage operations onto CTFile's folder-ID API.
+ * Paths are resolved below CTFILE_FOLDER_ID through the persistent folder cache.
+ */
+
+import { basename } from 'path';
+import { CTFileClient } from '../ctfile';
+import { CTFileFolderCache } from '../ctfile-folder-cache';
+import { joinRemotePath, splitRemotePath } from './backend';
+import type { StorageBackend, StorageEntry, StorageFolder, StorageUploadOptions, StorageUploadResult } from './backend';
+
+export class CTFileBackend implements StorageBackend {
+  readonly name = 'ctfile';
+  readonly maxFileSize?: number;
+
+  private client: CTFileClient;
+  private folders: CTFileFolderCache;
+
+  constructor(folders: CTFileFolderCache, maxFileSize?: number) {
+    this.client = folders.client;
+    this.folders = folders;
+    this.maxFileSize = maxFileSize;
+  }
+
+  /**
+   * Forget a cached folder if an error came from the CTFile API
+   * (e.g., the folder was deleted), so the next lookup lists it again
+   */
+  private async invalidateOnApiError(folderPath: string, error: unknown): Promise<void> {
+    if (error instanceof Error && error.message.includes('CTFile API error')) {
+      await this.folders.invalidate(folderPath);
+    }
+  }
+
+  async ensureFolder(folderPath: string): Promise<StorageFolder> {
+    const path = joinRemotePath(folderPath);
+    const folderId = (await this.folders.resolve(path, true))!;
+
+    return {
+      path,
+      id: folderId,
+      url: this.client.getFolderUrl(folderId),
+    };
+  }
+
+  async upload(localPath: string, folder: StorageFolder, options: StorageUploadOptions = {}): Promise<StorageUploadResult> {
+    if (!folder.id) {
+      throw new Error(`CTFile folder ID missing for ${folder.path}`);
+    }
+
+    let result;
+    try {
+      result = await this.client.uploadFile(folder.id, localPath, true, options.md5);
+    } catch (error) {
+      await this.invalidateOnApiError(folder.path, error);
+      throw error;
+    }
+
+    return {
+      backend: this.name,
+      remotePath: joinRemotePath(folder.path, basename(localPath)),
+      url: result.downloadUrl,
+      shortUrl: result.shortUrl,
+      folderUrl: folder.url,
+    };
+  }
+
+  async exists(remotePath: string): Promise<boolean> {
+    const { folderPath, fileName } = splitRemotePath(remotePath);
+    const entries = await this.list(folderPath);
+    return entries.some(entry => !entry.isFolder && entry.name === fileName);
+  }
+
+  async list(folderPath: string): Promise<StorageEntry[]> {
+    const folderId = await this.folders.resolve(folderPath);
+    if (!folderId) {
+      return [];
+    }
+
+    let items;
+    try {
+      items = await this.client.listFiles(folderId, true);
+    } catch (error) {
+      await this.invalidateOnApiError(folderPath, error);
+      throw error;
+    }
+
+    return items.map(item => ({
+      name: item.name,
+      path: joinRemotePath(folderPath, item.name),
+      isFolder: item.isFolder,
+      size: item.size,
+      modified: item.date,
+      id: item.key,
+      url: item.downloadUrl,
+      md5: item.md5,
+    }));
+  }
+
+  async delete(remotePath: string): Promise<void> {
+    const { folderPath, fileName } = splitRemotePath(remotePath);
+    const entries = await this.list(folderPath);
+    const entry = entries.find(e => !e.isFolder && e.name === fileName);
+
+    if (!entry?.id) {
+      // Already gone
+      return;
+    }
+
+    await this.client.deleteFile(entry.id, true);
+  }
+
+  async deleteFolder(folderPath: string): Promise<void> {
+    const path = joinRemotePath(folderPath);
+    const folderId = path ? await this.folders.resolve(path) : undefined;
+
+    if (!folderId) {
+      // Already gone (or the root, which is never deleted)
+      return;
+    }
+
+    try {
+      await this.client.deleteFolder(folderId, true);
+    } finally {
+      await this.folders.invalidate(path);
+    }
+  }
+
+  getPublicUrl(_remotePath: string): string | undefined {
+    // CTFile download URLs are ID-based and can't be derived from the path
+    return undefined;
+  }
+}
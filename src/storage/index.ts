@@ -0,0 +1,200 @@
+/**
+ * Storage Backends
+ *
+ * Builds the list of upload destinations from environment configuration.
+ *
+ * STORAGE_BACKENDS is a comma-separated list of backend names in priority
+ * order (default: "ctfile,webdav"). Available backends: ctfile, webdav, s3, local.
+ * With the default list, WebDAV is skipped when it isn't configured; a backend
+ * named explicitly must be configured.
+ *
+ * UPLOAD_MODE decides how the list is used: "fallback" (default) uploads each
+ * package to the first backend that accepts it, "replicate" uploads it to all.
+ */
+
+import { CTFileClient } from '../ctfile';
+import { CTFileFolderCache } from '../ctfile-folder-cache';
+import { WebDAVClient } from '../webdav-client';
+import { getEnv, getEnvOrDefault } from '../env';
+import { CTFileBackend } from './ctfile-backend';
+import { WebDAVBackend } from './webdav-backend';
+import { S3Backend } from './s3-backend';
+import { LocalBackend } from './local-backend';
+import type { StorageBackend } from './backend';
+import type { UploadMode } from '../types';
+
+export * from './backend';
+export { CTFileBackend } from './ctfile-backend';
+export { WebDAVBackend } from './webdav-backend';
+export { S3Backend } from './s3-backend';
+export { LocalBackend } from './local-backend';
+export { StorageInventory } from './inventory';
+export { verifyUpload, type VerificationMethod, type VerificationResult } from './verify';
+
+/**
+ * Default backend order when STORAGE_BACKENDS is not set
+ */
+const DEFAULT_STORAGE_BACKENDS = 'ctfile,webdav';
+
+/**
+ * Get the configured upload mode (UPLOAD_MODE, default: fallback)
+ * @throws Error if the value is not a known mode
+ */
+export function getUploadMode(): UploadMode {
+  const mode = getEnvOrDefault('UPLOAD_MODE', 'fallback').trim().toLowerCase();
+
+  if (mode !== 'fallback' && mode !== 'replicate') {
+    throw new Error(`Invalid UPLOAD_MODE: ${mode} (expected fallback or replicate)`);
+  }
+  return mode;
+}
+
+/**
+ * Get configured backend names in priority order
+ */
+export function getStorageBackendNames(): string[] {
+  return getEnvOrDefault('STORAGE_BACKENDS', DEFAULT_STORAGE_BACKENDS)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name);
+}
+
+/**
+ * Create the CTFile backend from CTFILE_* variables
+ */
+function createCTFileBackend(): StorageBackend {
+  const session = getEnv('CTFILE_SESSION');
+  const rootFolderId = getEnv('CTFILE_FOLDER_ID');
+  // Uploads are streamed, so there is no size limit unless one is configured
+  const limit = getEnvOrDefault('MAX_UPLOAD_FILE_SIZE', '');
+  const maxFileSize = limit ? parseInt(limit, 10) : undefined;
+
+  const folders = new CTFileFolderCache(new CTFileClient(session), rootFolderId);
+  return new CTFileBackend(folders, maxFileSize);
+}
+
+/**
+ * Create the WebDAV backend from WEBDAV_* variables
+ * @returns null if WebDAV is not configured
+ */
+function createWebDAVBackend(): StorageBackend | null {
+  const serverUrl = getEnvOrDefault('WEBDAV_URL', '');
+  const username = getEnvOrDefault('WEBDAV_USERNAME', '');
+  const password = getEnvOrDefault('WEBDAV_PASSWORD', '');
+
+  if (!serverUrl || !username || !password) {
+    return null;
+  }
+
+  const chunkSize = getEnvOrDefault('WEBDAV_CHUNK_SIZE', '');
+
+  return new WebDAVBackend(new WebDAVClient({
+    serverUrl,
+    username,
+    password,
+    rootPath: getEnvOrDefault('WEBDAV_ROOT_PATH', '/'),
+    chunkedUpload: getEnvOrDefault('WEBDAV_CHUNKED_UPLOAD', 'false') === 'true',
+    chunkSize: chunkSize ? parseInt(chunkSize, 10) : undefined,
+  }));
+}
+
+/**
+ * Create the S3-compatible backend from S3_* variables
+ * @returns null if S3 is not configured
+ */
+function createS3Backend(): StorageBackend | null {
+  const bucket = getEnvOrDefault('S3_BUCKET', '');
+  const accessKeyId = getEnvOrDefault('S3_ACCESS_KEY_ID', '');
+  const secretAccessKey = getEnvOrDefault('S3_SECRET_ACCESS_KEY', '');
+
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    return null;
+  }
+
+  const acl = getEnvOrDefault('S3_ACL', '');
+  const partSize = getEnvOrDefault('S3_PART_SIZE', '');
+  const presignExpiresIn = getEnvOrDefault('S3_PRESIGN_EXPIRES', '');
+
+  return new S3Backend({
+    endpoint: getEnvOrDefault('S3_ENDPOINT', '') || undefined,
+    bucket,
+    region: getEnvOrDefault('S3_REGION', '') || undefined,
+    accessKeyId,
+    secretAccessKey,
+    prefix: getEnvOrDefault('S3_PREFIX', ''),
+    publicUrl: getEnvOrDefault('S3_PUBLIC_URL', '') || undefined,
+    presignExpiresIn: presignExpiresIn ? parseInt(presignExpiresIn, 10) : undefined,
+    partSize: partSize ? parseInt(partSize, 10) : undefined,
+    virtualHostedStyle: getEnvOrDefault('S3_VIRTUAL_HOSTED_STYLE', 'false') === 'true',
+    acl: acl === 'private' || acl === 'public-read' ? acl : undefined,
+  });
+}
+
+/**
+ * Create the local mirror backend from LOCAL_MIRROR_* variables
+ * @returns null if LOCAL_MIRROR_DIR is not set
+ */
+function createLocalBackend(): StorageBackend | null {
+  const rootDir = getEnvOrDefault('LOCAL_MIRROR_DIR', '');
+
+  if (!rootDir) {
+    return null;
+  }
+
+  return new LocalBackend(
+    rootDir,
+    getEnvOrDefault('LOCAL_MIRROR_BASE_URL', '') || undefined,
+    getEnvOrDefault('LOCAL_MIRROR_INDEX', 'true') !== 'false'
+  );
+}
+
+/**
+ * Create one storage backend by name
+ *
+ * @returns null if the backend is not configured
+ * @throws Error if the name is unknown
+ */
+export function createStorageBackend(name: string): StorageBackend | null {
+  switch (name) {
+    case 'ctfile':
+      return createCTFileBackend();
+    case 'webdav':
+      return createWebDAVBackend();
+    case 's3':
+      return createS3Backend();
+    case 'local':
+      return createLocalBackend();
+    default:
+      throw new Error(`Unknown storage backend: ${name}`);
+  }
+}
+
+/**
+ * Create all configured storage backends in priority order
+ *
+ * @throws Error if a backend is unknown, or named explicitly but not configured
+ */
+export function createStorageBackends(): StorageBackend[] {
+  const explicit = process.env.STORAGE_BACKENDS !== undefined && process.env.STORAGE_BACKENDS !== '';
+  const backends: StorageBackend[] = [];
+
+  for (const name of getStorageBackendNames()) {
+    const backend = createStorageBackend(name);
+
+    if (!backend) {
+      if (explicit) {
+        throw new Error(`Storage backend "${name}" is listed in STORAGE_BACKENDS but not configured`);
+      }
+      console.log(`  ⚠ Storage backend "${name}" not configured, skipping`);
+      continue;
+    }
+
+    backends.push(backend);
+  }
+
+  if (backends.length === 0) {
+    throw new Error('No storage backends configured');
+  }
+
+  return backends;
+}
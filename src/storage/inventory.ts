@@ -0,0 +1,58 @@
+/**
+ * Storage Inventory
+ *
+ * Answers "is this file on that backend?" from folder listings instead of one
+ * request per file. Each folder is listed once per backend and run, so the
+ * check scripts can verify hundreds of packages with a few requests and also
+ * see size and ETag of the remote copy.
+ */
+
+import { splitRemotePath } from './backend';
+import type { StorageBackend, StorageEntry } from './backend';
+import { parseQpkgFilename } from '../ctfile-utils';
+
+export class StorageInventory {
+  readonly backend: StorageBackend;
+
+  private listings = new Map<string, Promise<StorageEntry[]>>();
+
+  constructor(backend: StorageBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * List a folder, once per run
+   */
+  listFolder(folderPath: string): Promise<StorageEntry[]> {
+    if (!this.listings.has(folderPath)) {
+      const listing = this.backend.list(folderPath);
+      // Don't keep failed listings around
+      listing.catch(() => this.listings.delete(folderPath));
+      this.listings.set(folderPath, listing);
+    }
+    return this.listings.get(folderPath)!;
+  }
+
+  /**
+   * Find a file by its path
+   * @returns Entry, or undefined if the file doesn't exist
+   */
+  async find(remotePath: string): Promise<StorageEntry | undefined> {
+    const { folderPath, fileName } = splitRemotePath(remotePath);
+    const entries = await this.listFolder(folderPath);
+    return entries.find(entry => !entry.isFolder && entry.name === fileName);
+  }
+
+  /**
+   * Find a package in a folder by version and architecture
+   * (the file name may differ, e.g. after a rename on the server)
+   */
+  async findPackage(folderPath: string, version: string, architecture: string): Promise<StorageEntry | undefined> {
+    const entries = await this.listFolder(folderPath);
+    return entries.find(entry => {
+      if (entry.isFolder) return false;
+      const parsed = parseQpkgFilename(entry.name);
+      return parsed.version === version && parsed.arch === architecture;
+    });
+  }
+}
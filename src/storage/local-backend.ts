@@ -0,0 +1,280 @@
+/**
+ * Local Filesystem Storage Backend
+ *
+ * Publishes the mirror into a local directory tree (e.g., an nginx docroot or
+ * a NAS share) using the same `ProductName/YYYY-MM/filename` layout as the
+ * other backends.
+ *
+ * - Files are hardlinked from the download directory when possible and copied
+ *   otherwise (different filesystem, or links not supported by the share)
+ * - Every file is written under a temporary name and renamed into place, so a
+ *   web server never serves a partially written package
+ * - An index.html is regenerated for each touched directory up to the root,
+ *   unless the directory holds a published index.html (e.g., the download portal)
+ */
+
+import { basename, dirname, join, relative, resolve } from 'path';
+import { copyFile, link, mkdir, readdir, rename, rm, rmdir, stat } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { formatBytes } from '../utils/format';
+import { escapeHtml } from '../utils/html';
+import { joinRemotePath } from './backend';
+import type { StorageBackend, StorageEntry, StorageFolder, StorageUploadOptions, StorageUploadResult } from './backend';
+
+/**
+ * Name of the generated directory index
+ */
+const INDEX_FILE = 'index.html';
+
+/**
+ * Marks an index.html as generated, so published pages are never overwritten
+ */
+const INDEX_MARKER = '<meta name="generator" content="local-mirror-index">';
+
+/**
+ * Suffix of files being written; hidden from listings and indexes
+ */
+const TEMP_SUFFIX = '.tmp';
+
+export class LocalBackend implements StorageBackend {
+  readonly name = 'local';
+  readonly maxFileSize?: number;
+
+  private rootDir: string;
+  private baseUrl?: string;
+  private generateIndex: boolean;
+
+  /**
+   * @param rootDir - Mirror root directory
+   * @param baseUrl - Public URL that serves rootDir (file:// URLs are recorded when unset)
+   * @param generateIndex - Write index.html into every touched directory
+   */
+  constructor(rootDir: string, baseUrl?: string, generateIndex: boolean = true) {
+    this.rootDir = resolve(rootDir);
+    this.baseUrl = baseUrl?.replace(/\/+$/, '');
+    this.generateIndex = generateIndex;
+  }
+
+  /**
+   * Convert a backend-relative path to an absolute local path
+   */
+  private toLocalPath(remotePath: string): string {
+    const localPath = resolve(this.rootDir, joinRemotePath(remotePath));
+    const rel = relative(this.rootDir, localPath);
+
+    if (rel.startsWith('..')) {
+      throw new Error(`Path escapes the mirror root: ${remotePath}`);
+    }
+    return localPath;
+  }
+
+  async ensureFolder(folderPath: string): Promise<StorageFolder> {
+    const path = joinRemotePath(folderPath);
+    await mkdir(this.toLocalPath(path), { recursive: true });
+    return { path, url: this.getPublicUrl(path) };
+  }
+
+  async upload(localPath: string, folder: StorageFolder, _options?: StorageUploadOptions): Promise<StorageUploadResult> {
+    const fileName = basename(localPath);
+    const remotePath = joinRemotePath(folder.path, fileName);
+    const destPath = this.toLocalPath(remotePath);
+    const tempPath = `${destPath}.${process.pid}${TEMP_SUFFIX}`;
+
+    console.log(`\n📁 Local mirror: ${fileName}`);
+    console.log(`  Target: ${destPath}`);
+
+    await mkdir(dirname(destPath), { recursive: true });
+    await rm(tempPath, { force: true });
+
+    try {
+      const method = await this.linkOrCopy(localPath, tempPath);
+      await rename(tempPath, destPath);
+      console.log(`  ✓ Published (${method})`);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw new Error(`Local mirror publish failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    await this.refreshIndexes(folder.path);
+
+    return {
+      backend: this.name,
+      remotePath,
+      url: this.getPublicUrl(remotePath),
+      folderUrl: this.getPublicUrl(folder.path),
+    };
+  }
+
+  /**
+   * Hardlink source to target, falling back to a copy
+   * @returns Method used, for logging
+   */
+  private async linkOrCopy(source: string, target: string): Promise<string> {
+    try {
+      await link(source, target);
+      return 'hardlink';
+    } catch (error: any) {
+      // EXDEV: different filesystem; EPERM/ENOTSUP/EMLINK: links not allowed here
+      if (!['EXDEV', 'EPERM', 'ENOTSUP', 'EMLINK', 'EACCES'].includes(error?.code)) {
+        throw error;
+      }
+    }
+
+    await copyFile(source, target);
+    const [sourceStat, targetStat] = await Promise.all([stat(source), stat(target)]);
+    if (sourceStat.size !== targetStat.size) {
+      throw new Error(`Copy incomplete: ${targetStat.size}/${sourceStat.size} bytes`);
+    }
+    return `copy, ${formatBytes(targetStat.size)}`;
+  }
+
+  async exists(remotePath: string): Promise<boolean> {
+    try {
+      return (await stat(this.toLocalPath(remotePath))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async list(folderPath: string): Promise<StorageEntry[]> {
+    const path = joinRemotePath(folderPath);
+    let names: string[];
+
+    try {
+      names = await readdir(this.toLocalPath(path));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: StorageEntry[] = [];
+    for (const name of names.sort()) {
+      if (name === INDEX_FILE || name.endsWith(TEMP_SUFFIX) || name.startsWith('.')) {
+        continue;
+      }
+
+      const entryPath = joinRemotePath(path, name);
+      const info = await stat(this.toLocalPath(entryPath));
+      entries.push({
+        name,
+        path: entryPath,
+        isFolder: info.isDirectory(),
+        size: info.isDirectory() ? undefined : info.size,
+        modified: info.mtime.toISOString(),
+        url: this.getPublicUrl(entryPath),
+      });
+    }
+
+    return entries;
+  }
+
+  async readRange(remotePath: string, start: number, end: number): Promise<Uint8Array> {
+    return await Bun.file(this.toLocalPath(remotePath)).slice(start, end).bytes();
+  }
+
+  async delete(remotePath: string): Promise<void> {
+    await rm(this.toLocalPath(remotePath), { force: true });
+    await this.refreshIndexes(joinRemotePath(remotePath).split('/').slice(0, -1).join('/'));
+  }
+
+  async deleteFolder(folderPath: string): Promise<void> {
+    const path = joinRemotePath(folderPath);
+    if (!path) {
+      throw new Error('Refusing to delete the mirror root');
+    }
+
+    const localPath = this.toLocalPath(path);
+    let names: string[];
+    try {
+      names = await readdir(localPath);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return;
+      throw error;
+    }
+
+    // The generated index doesn't count as content
+    if (names.some(name => name !== INDEX_FILE)) {
+      throw new Error(`Folder not empty: ${path}`);
+    }
+    await rm(join(localPath, INDEX_FILE), { force: true });
+    await rmdir(localPath);
+    await this.refreshIndexes(path.split('/').slice(0, -1).join('/'));
+  }
+
+  getPublicUrl(remotePath: string): string {
+    const path = joinRemotePath(remotePath);
+
+    if (!this.baseUrl) {
+      return pathToFileURL(this.toLocalPath(path)).href;
+    }
+    if (!path) {
+      return `${this.baseUrl}/`;
+    }
+    return `${this.baseUrl}/${path.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  /**
+   * Regenerate index.html for a folder and each of its parents up to the root
+   */
+  private async refreshIndexes(folderPath: string): Promise<void> {
+    if (!this.generateIndex) {
+      return;
+    }
+
+    const segments = joinRemotePath(folderPath).split('/').filter(p => p);
+    for (let depth = segments.length; depth >= 0; depth--) {
+      await this.writeIndex(segments.slice(0, depth).join('/'));
+    }
+  }
+
+  /**
+   * Write index.html for one folder (atomically, via rename)
+   */
+  private async writeIndex(folderPath: string): Promise<void> {
+    const indexPath = join(this.toLocalPath(folderPath), INDEX_FILE);
+    const existing = Bun.file(indexPath);
+    if (await existing.exists() && !(await existing.text()).includes(INDEX_MARKER)) {
+      return;
+    }
+
+    const entries = await this.list(folderPath);
+    const title = `/${folderPath}`;
+
+    const rows = entries
+      .sort((a, b) => Number(b.isFolder) - Number(a.isFolder) || a.name.localeCompare(b.name))
+      .map(entry => {
+        const href = encodeURIComponent(entry.name) + (entry.isFolder ? '/' : '');
+        const size = entry.size !== undefined ? formatBytes(entry.size) : '-';
+        const modified = entry.modified ? entry.modified.substring(0, 19).replace('T', ' ') : '';
+        return `<tr><td><a href="${href}">${escapeHtml(entry.name)}${entry.isFolder ? '/' : ''}</a></td><td>${size}</td><td>${modified}</td></tr>`;
+      });
+
+    if (folderPath) {
+      rows.unshift('<tr><td><a href="../">../</a></td><td></td><td></td></tr>');
+    }
+
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+${INDEX_MARKER}
+<title>Index of ${escapeHtml(title)}</title>
+<style>body{font-family:sans-serif}td{padding:2px 12px}</style>
+</head>
+<body>
+<h1>Index of ${escapeHtml(title)}</h1>
+<table>
+<tr><th align="left">Name</th><th align="left">Size</th><th align="left">Modified (UTC)</th></tr>
+${rows.join('\n')}
+</table>
+</body>
+</html>
+`;
+
+    const tempPath = `${indexPath}.${process.pid}${TEMP_SUFFIX}`;
+    await Bun.write(tempPath, html);
+    await rename(tempPath, indexPath);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Publish Generated Files
+ *
+ * Uploads generated files (catalogs, feeds, the download portal) to every
+ * storage backend, replacing the copies from the previous run. Unlike package
+ * uploads there is no progress tracking: the files are small and rewritten on
+ * every sync.
+ */
+
+import { basename } from 'path';
+import { joinRemotePath } from './backend';
+import type { StorageBackend, StorageFolder } from './backend';
+
+/**
+ * File to publish; the remote name is the local file name
+ */
+export interface PublishItem {
+  localPath: string;
+  folderPath: string;   // Target folder relative to the backend root ("" for the root)
+}
+
+/**
+ * Published copies of one file, keyed by backend name
+ */
+export interface PublishResult {
+  remotePath: string;
+  urls: Record<string, string>;
+  errors: Record<string, string>;
+}
+
+/**
+ * Backends whose files can link to each other by relative path
+ *
+ * Generated sites and feeds link between their own files, which needs
+ * path-addressable URLs; CTFile links are per file ID, so it is skipped.
+ *
+ * @param probePath - A remote path of the published set, used to ask for a public URL
+ */
+export function getPathAddressableBackends(backends: StorageBackend[], probePath: string): StorageBackend[] {
+  return backends.filter(backend => {
+    if (backend.getPublicUrl(probePath) === undefined) {
+      console.log(`  ⏭  Skipping ${backend.name}: no path-based URLs`);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Publish files to every backend
+ *
+ * A backend that fails for one file is still tried for the others; errors are
+ * logged and returned, not thrown, so publishing never fails a sync.
+ */
+export async function publishFiles(backends: StorageBackend[], items: PublishItem[]): Promise<PublishResult[]> {
+  const results: PublishResult[] = [];
+  const folders = new Map<string, Promise<StorageFolder>>();
+
+  for (const item of items) {
+    const folderPath = joinRemotePath(item.folderPath);
+    const remotePath = joinRemotePath(folderPath, basename(item.localPath));
+    const result: PublishResult = { remotePath, urls: {}, errors: {} };
+
+    for (const backend of backends) {
+      try {
+        const key = `${backend.name}:${folderPath}`;
+        if (!folders.has(key)) {
+          folders.set(key, backend.ensureFolder(folderPath));
+        }
+        const folder = await folders.get(key)!;
+
+        // Some backends (CTFile) keep both copies instead of overwriting
+        if (await backend.exists(remotePath)) {
+          await backend.delete(remotePath);
+        }
+
+        const upload = await backend.upload(item.localPath, folder);
+        result.urls[backend.name] = upload.url;
+        console.log(`  ✓ ${backend.name}: ${remotePath}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors[backend.name] = message;
+        console.error(`  ✗ ${backend.name}: ${remotePath}: ${message}`);
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,216 @@
+/**
+ * S3-Compatible Storage Backend
+ *
+ * Mirrors packages into any S3-compatible object storage (AWS S3, MinIO,
+ * Cloudflare R2, Ceph RGW) using Bun's built-in S3 client, which handles
+ * SigV4 request signing. Files are streamed from disk through a multipart
+ * upload, so packages larger than 1 GB never need to be held in memory.
+ *
+ * Object keys follow the same layout as the other backends:
+ *   S3_PREFIX/ProductName/YYYY-MM/filename
+ */
+
+import { basename } from 'path';
+import { S3Client } from 'bun';
+import { formatBytes } from '../utils/format';
+import { joinRemotePath } from './backend';
+import type { StorageBackend, StorageEntry, StorageFolder, StorageUploadOptions, StorageUploadResult } from './backend';
+
+export interface S3BackendConfig {
+  endpoint?: string;
+  bucket: string;
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;              // Key prefix all uploads live under
+  publicUrl?: string;           // Public base URL (e.g., CDN or r2.dev); presigned URLs are used when unset
+  presignExpiresIn?: number;    // Presigned URL lifetime in seconds
+  partSize?: number;            // Multipart part size in bytes
+  queueSize?: number;           // Parts uploaded in parallel
+  virtualHostedStyle?: boolean;
+  acl?: 'private' | 'public-read';
+}
+
+/**
+ * Default multipart part size (64 MiB)
+ */
+const DEFAULT_PART_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Default presigned URL lifetime: 7 days, the maximum allowed by SigV4
+ */
+const DEFAULT_PRESIGN_EXPIRES_IN = 7 * 24 * 60 * 60;
+
+export class S3Backend implements StorageBackend {
+  readonly name = 's3';
+  readonly maxFileSize?: number;
+
+  private client: S3Client;
+  private config: S3BackendConfig;
+
+  constructor(config: S3BackendConfig, maxRetries: number = 3) {
+    this.config = {
+      ...config,
+      prefix: joinRemotePath(config.prefix || ''),
+      publicUrl: config.publicUrl?.replace(/\/+$/, ''),
+      presignExpiresIn: config.presignExpiresIn || DEFAULT_PRESIGN_EXPIRES_IN,
+      partSize: config.partSize || DEFAULT_PART_SIZE,
+      queueSize: config.queueSize || 4,
+    };
+
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      bucket: config.bucket,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      virtualHostedStyle: config.virtualHostedStyle,
+      retry: maxRetries,
+    });
+  }
+
+  /**
+   * Convert a backend-relative path to an object key
+   */
+  private toKey(remotePath: string): string {
+    return joinRemotePath(this.config.prefix!, remotePath);
+  }
+
+  /**
+   * Convert an object key back to a backend-relative path
+   */
+  private fromKey(key: string): string {
+    const prefix = this.config.prefix ? `${this.config.prefix}/` : '';
+    return key.startsWith(prefix) ? key.substring(prefix.length) : key;
+  }
+
+  async ensureFolder(folderPath: string): Promise<StorageFolder> {
+    // Object storage has no real folders; keys are created on upload
+    return { path: joinRemotePath(folderPath) };
+  }
+
+  async upload(localPath: string, folder: StorageFolder, _options?: StorageUploadOptions): Promise<StorageUploadResult> {
+    const fileName = basename(localPath);
+    const remotePath = joinRemotePath(folder.path, fileName);
+    const key = this.toKey(remotePath);
+    const file = Bun.file(localPath);
+    const fileSize = file.size;
+
+    console.log(`\n📤 S3 Upload: ${fileName}`);
+    console.log(`  Size: ${formatBytes(fileSize)}`);
+    console.log(`  Key: ${this.config.bucket}/${key}`);
+
+    const startTime = Date.now();
+
+    // Stream the file through a multipart upload (single PUT if smaller than one part)
+    const writer = this.client.file(key).writer({
+      partSize: this.config.partSize,
+      queueSize: this.config.queueSize,
+      type: 'application/octet-stream',
+      acl: this.config.acl,
+    });
+
+    const reader = file.stream().getReader();
+    let uploadedBytes = 0;
+    let lastLogTime = startTime;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        await writer.write(value);
+        uploadedBytes += value.length;
+
+        const now = Date.now();
+        if (now - lastLogTime > 5000) {
+          const percentage = ((uploadedBytes / fileSize) * 100).toFixed(1);
+          console.log(`  ⬆️  ${percentage}% (${formatBytes(uploadedBytes)}/${formatBytes(fileSize)})`);
+          lastLogTime = now;
+        }
+      }
+
+      await writer.end();
+    } catch (error) {
+      // Abort the multipart upload so no orphaned parts are left behind
+      await Promise.resolve(writer.end(error instanceof Error ? error : new Error(String(error)))).catch(() => {});
+      throw new Error(`S3 upload failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      reader.releaseLock();
+    }
+
+    const elapsed = Date.now() - startTime;
+    const speed = elapsed > 0 ? (fileSize / elapsed) * 1000 : 0;
+    console.log(`  ✓ S3 upload completed`);
+    console.log(`  ⏱️  Time: ${(elapsed / 1000).toFixed(2)}s (${formatBytes(speed)}/s)`);
+
+    return {
+      backend: this.name,
+      remotePath,
+      url: this.getPublicUrl(remotePath),
+      expiresAt: this.config.publicUrl
+        ? undefined
+        : new Date(Date.now() + this.config.presignExpiresIn! * 1000).toISOString(),
+    };
+  }
+
+  async exists(remotePath: string): Promise<boolean> {
+    return await this.client.exists(this.toKey(remotePath));
+  }
+
+  async list(folderPath: string): Promise<StorageEntry[]> {
+    const prefix = `${this.toKey(folderPath)}/`.replace(/^\//, '');
+    const entries: StorageEntry[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.client.list({ prefix, delimiter: '/', continuationToken });
+
+      for (const common of result.commonPrefixes || []) {
+        const path = this.fromKey(common.prefix.replace(/\/$/, ''));
+        entries.push({ name: basename(path), path, isFolder: true });
+      }
+
+      for (const object of result.contents || []) {
+        const path = this.fromKey(object.key);
+        entries.push({
+          name: basename(path),
+          path,
+          isFolder: false,
+          size: object.size,
+          modified: object.lastModified,
+          id: object.eTag?.replace(/"/g, ''),
+          etag: object.eTag?.replace(/"/g, ''),
+        });
+      }
+
+      continuationToken = result.isTruncated ? result.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return entries;
+  }
+
+  async delete(remotePath: string): Promise<void> {
+    await this.client.delete(this.toKey(remotePath));
+  }
+
+  async readRange(remotePath: string, start: number, end: number): Promise<Uint8Array> {
+    return await this.client.file(this.toKey(remotePath)).slice(start, end).bytes();
+  }
+
+  /**
+   * Public URL when S3_PUBLIC_URL is set, otherwise a presigned GET URL
+   */
+  getPublicUrl(remotePath: string): string {
+    const key = this.toKey(remotePath);
+
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+    }
+
+    return this.client.presign(key, {
+      method: 'GET',
+      expiresIn: this.config.presignExpiresIn,
+    });
+  }
+}
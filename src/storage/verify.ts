@@ -0,0 +1,117 @@
+/**
+ * Post-upload Verification
+ *
+ * Confirms that a file stored on a backend matches the local file, using the
+ * strongest check the backend allows:
+ *
+ * - md5: the backend's listing reports an MD5 (CTFile, when provided)
+ * - etag: the ETag is a plain MD5 (S3 single-part uploads, some WebDAV servers)
+ * - sample: byte ranges at the start, middle and end are read back and compared
+ * - size: only the remote size could be checked
+ *
+ * A missing file or a size/checksum/sample mismatch fails the verification.
+ */
+
+import { splitRemotePath } from './backend';
+import type { StorageBackend, StorageEntry } from './backend';
+
+/**
+ * Bytes read back per sample range (64 KiB)
+ */
+const SAMPLE_SIZE = 64 * 1024;
+
+export type VerificationMethod = 'md5' | 'etag' | 'sample' | 'size';
+
+export interface VerificationResult {
+  ok: boolean;
+  method?: VerificationMethod;   // Strongest check that passed (when ok)
+  error?: string;                // Reason for the mismatch (when not ok)
+}
+
+/**
+ * Verify an uploaded file against the local copy
+ *
+ * @param backend - Backend the file was uploaded to
+ * @param remotePath - Path returned by upload()
+ * @param localPath - Local file
+ * @param expected - Size and (if known) MD5 recorded at download time
+ */
+export async function verifyUpload(
+  backend: StorageBackend,
+  remotePath: string,
+  localPath: string,
+  expected: { size: number; md5?: string }
+): Promise<VerificationResult> {
+  const { folderPath, fileName } = splitRemotePath(remotePath);
+  const entries = await backend.list(folderPath);
+  const entry = entries.find(e => !e.isFolder && e.name === fileName);
+
+  if (!entry) {
+    return { ok: false, error: 'File not found after upload' };
+  }
+
+  if (entry.size !== undefined && entry.size !== expected.size) {
+    return { ok: false, error: `Size mismatch: remote ${entry.size} bytes, local ${expected.size} bytes` };
+  }
+
+  const md5 = expected.md5?.toLowerCase();
+
+  if (md5 && entry.md5) {
+    return entry.md5.toLowerCase() === md5
+      ? { ok: true, method: 'md5' }
+      : { ok: false, error: `MD5 mismatch: remote ${entry.md5}, local ${md5}` };
+  }
+
+  // An ETag that looks like an MD5 usually is one; anything else (or a
+  // different value) says nothing about the content, so fall through
+  if (md5 && isMd5ETag(entry) && entry.etag!.toLowerCase() === md5) {
+    return { ok: true, method: 'etag' };
+  }
+
+  if (backend.readRange) {
+    const error = await compareSamples(backend, remotePath, localPath, expected.size);
+    return error ? { ok: false, error } : { ok: true, method: 'sample' };
+  }
+
+  if (entry.size === undefined) {
+    return { ok: false, error: 'Backend reported neither size nor checksum' };
+  }
+
+  return { ok: true, method: 'size' };
+}
+
+/**
+ * Whether an entry's ETag is a plain hex MD5 (not a multipart "<md5>-<parts>" ETag)
+ */
+function isMd5ETag(entry: StorageEntry): boolean {
+  return !!entry.etag && /^[0-9a-f]{32}$/i.test(entry.etag);
+}
+
+/**
+ * Read back the first, middle and last SAMPLE_SIZE bytes and compare them
+ * @returns Description of the first mismatch, or null if all samples match
+ */
+async function compareSamples(
+  backend: StorageBackend,
+  remotePath: string,
+  localPath: string,
+  fileSize: number
+): Promise<string | null> {
+  const starts = [0, Math.floor(fileSize / 2) - SAMPLE_SIZE / 2, fileSize - SAMPLE_SIZE]
+    .map(start => Math.max(0, Math.min(start, fileSize - SAMPLE_SIZE)));
+  const local = Bun.file(localPath);
+
+  for (const start of new Set(starts)) {
+    const end = Math.min(start + SAMPLE_SIZE, fileSize);
+    const [remoteBytes, localBytes] = await Promise.all([
+      backend.readRange!(remotePath, start, end),
+      local.slice(start, end).bytes(),
+    ]);
+
+    if (!Buffer.from(remoteBytes).equals(Buffer.from(localBytes))) {
+      return `Content mismatch in bytes ${start}-${end - 1}`;
+    }
+  }
+
+  return null;
+}
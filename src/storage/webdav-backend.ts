@@ -0,0 +1,76 @@
+/**
+ * WebDAV Storage Backend
+ *
+ * Paths are relative to WEBDAV_ROOT_PATH on the WebDAV server.
+ */
+
+import { basename } from 'path';
+import { WebDAVClient } from '../webdav-client';
+import { joinRemotePath } from './backend';
+import type { StorageBackend, StorageEntry, StorageFolder, StorageUploadOptions, StorageUploadResult } from './backend';
+
+export class WebDAVBackend implements StorageBackend {
+  readonly name = 'webdav';
+  readonly maxFileSize?: number;
+
+  private client: WebDAVClient;
+
+  constructor(client: WebDAVClient, maxFileSize?: number) {
+    this.client = client;
+    this.maxFileSize = maxFileSize;
+  }
+
+  async ensureFolder(folderPath: string): Promise<StorageFolder> {
+    const path = joinRemotePath(folderPath);
+    await this.client.ensureDirectory(`/${path}`);
+    return { path };
+  }
+
+  async upload(localPath: string, folder: StorageFolder, _options?: StorageUploadOptions): Promise<StorageUploadResult> {
+    const remotePath = joinRemotePath(folder.path, basename(localPath));
+
+    // Folder was already created by ensureFolder, so no folderPath here
+    const result = await this.client.uploadFile(localPath, `/${remotePath}`);
+
+    return {
+      backend: this.name,
+      remotePath,
+      url: result.downloadUrl,
+    };
+  }
+
+  async exists(remotePath: string): Promise<boolean> {
+    return await this.client.fileExists(`/${joinRemotePath(remotePath)}`);
+  }
+
+  async list(folderPath: string): Promise<StorageEntry[]> {
+    const entries = await this.client.listDirectory(`/${joinRemotePath(folderPath)}`);
+
+    return (entries || []).map(entry => ({
+      name: entry.name,
+      path: entry.path,
+      isFolder: entry.isCollection,
+      size: entry.size,
+      modified: entry.lastModified,
+      url: this.client.getFileUrl(`/${entry.path}`),
+      etag: entry.etag,
+      contentType: entry.contentType,
+    }));
+  }
+
+  async delete(remotePath: string): Promise<void> {
+    await this.client.deleteFile(`/${joinRemotePath(remotePath)}`);
+  }
+
+  async deleteFolder(folderPath: string): Promise<void> {
+    await this.client.deleteDirectory(`/${joinRemotePath(folderPath)}`);
+  }
+
+  async readRange(remotePath: string, start: number, end: number): Promise<Uint8Array> {
+    return await this.client.readRange(`/${joinRemotePath(remotePath)}`, start, end);
+  }
+
+  getPublicUrl(remotePath: string): string | undefined {
+    return this.client.getFileUrl(`/${joinRemotePath(remotePath)}`);
+  }
+}
@@ -21,6 +21,7 @@ export interface AppItem {
   version: string;
   platform: Platform[];
   internalName: string;
+  publishedDate?: string;   // Release date from the feed, e.g. "2025/11/03"
 }
 
 /**
@@ -33,6 +34,45 @@ export interface AppsConfig {
   };
 }
 
+/**
+ * How signature mismatches are handled (SIGNATURE_POLICY)
+ * - off: don't check signatures
+ * - warn: log mismatches, keep the package
+ * - strict: quarantine mismatching packages, never upload them
+ */
+export type SignaturePolicy = 'off' | 'warn' | 'strict';
+
+/**
+ * How version rollbacks in the feed are handled (DOWNGRADE_POLICY)
+ * - mirror: download the older version like any other change
+ * - skip: report the downgrade, don't download it
+ */
+export type DowngradePolicy = 'mirror' | 'skip';
+
+/**
+ * Outcome of comparing a downloaded file with its feed signature
+ */
+export type SignatureStatus = 'verified' | 'mismatch' | 'unverifiable' | 'skipped';
+
+/**
+ * Details of a signature comparison
+ */
+export interface SignatureCheck {
+  status: SignatureStatus;
+  algorithm?: 'md5' | 'sha256';
+  expected?: string;
+  actual?: string;
+  reason?: string;
+}
+
+/**
+ * Where a package's publish date came from (see publish-date.ts)
+ * - feed: <publishedDate> of the feed item
+ * - last-modified: Last-Modified header of the package URL
+ * - download: first download time, nothing better was known
+ */
+export type PublishedDateSource = 'feed' | 'last-modified' | 'download';
+
 /**
  * Package metadata for downloaded/uploaded files
  */
@@ -44,8 +84,40 @@ export interface PackageMetadata {
   fileSize: number;
   downloadUrl: string;
   publishedDate: string;
+  publishedDateSource?: PublishedDateSource;   // Missing in records written before sources were tracked
   downloadDate: string;
   signature: string;
+  md5?: string;      // Hex MD5, computed while downloading
+  sha256?: string;   // Hex SHA-256, computed while downloading
+  signatureStatus?: SignatureStatus;
+  qpkg?: QpkgInfo;          // Contents read by the QPKG inspector (QPKG_INSPECT)
+  qpkgIssues?: string[];    // Where the contents disagree with apps.json, or why they couldn't be read
+}
+
+/**
+ * Data archive embedded in a QPKG file
+ */
+export interface QpkgDataArchive {
+  offset: number;
+  format: 'tar.gz' | 'tar' | '7z' | 'bzip2' | 'xz' | 'unknown';
+  entries?: number;         // Listed for tar and tar.gz only
+  size?: number;            // Uncompressed size of all files
+  topLevel?: string[];      // Top-level paths
+}
+
+/**
+ * Metadata embedded in a QPKG file (header script and qpkg.cfg)
+ */
+export interface QpkgInfo {
+  name?: string;            // QPKG_NAME
+  version?: string;         // QPKG_VER
+  displayName?: string;     // QPKG_DISPLAY_NAME
+  minFirmware?: string;     // QTS_MINI_VERSION
+  maxFirmware?: string;     // QTS_MAX_VERSION
+  architecture?: string;    // Only if the package declares one
+  scriptLength: number;     // Length of the installer script before the archives
+  controlFiles: string[];   // Files of the control archive
+  data?: QpkgDataArchive;
 }
 
 /**
@@ -53,11 +125,75 @@ export interface PackageMetadata {
  */
 export interface UploadedPackage extends PackageMetadata {
   localPath: string;
-  ctfileUrl?: string;
+  primaryUrl?: string;         // Download link of the first backend in STORAGE_BACKENDS order that has the file
+  primaryShortUrl?: string;
+  primaryFolderUrl?: string;
+  ctfileUrl?: string;          // Set only when the file is on CTFile
   ctfileShortUrl?: string;
   ctfileFolderUrl?: string;
   uploadDate?: string;
   webdavUrl?: string;
+  s3Url?: string;
+  s3UrlExpiresAt?: string;   // Set when s3Url is a presigned (time-limited) URL
+  localMirrorUrl?: string;   // LOCAL_MIRROR_BASE_URL + path (file:// URL when no base URL)
+  uploadMethod?: string;   // Name of the storage backend that holds the file
+  uploadError?: string;
+  replicas?: Record<string, ReplicaStatus>;   // Per-destination state, keyed by backend name
+}
+
+/**
+ * How packages are distributed over the storage backends (UPLOAD_MODE)
+ * - fallback: upload to the first backend that accepts the file
+ * - replicate: upload to every configured backend
+ */
+export type UploadMode = 'fallback' | 'replicate';
+
+/**
+ * Upload state of one package on one storage backend
+ * - uploaded: stored on the backend
+ * - failed: last attempt failed, retried on the next run
+ * - skipped: file exceeds the backend's size limit
+ * - missing: recorded as uploaded but no longer found (check-upload)
+ */
+export interface ReplicaStatus {
+  status: 'uploaded' | 'failed' | 'skipped' | 'missing';
+  remotePath: string;
+  url?: string;
+  shortUrl?: string;
+  folderUrl?: string;
+  expiresAt?: string;
+  uploadDate?: string;     // Set when status is "uploaded"
+  attempts: number;        // Upload attempts so far, including the successful one
+  lastAttempt?: string;
+  lastError?: string;
+  verifiedAt?: string;     // Set when the remote copy was verified after upload (UPLOAD_VERIFY)
+  verifiedBy?: 'md5' | 'etag' | 'sample' | 'size';
+}
+
+/**
+ * Upload progress record (config/upload-progress.json)
+ * primaryUrl/primaryShortUrl/primaryFolderUrl hold the primary download link
+ * (first backend in STORAGE_BACKENDS order that has the file); the ctfile*
+ * links are only set for files on CTFile. Records written before primaryUrl
+ * existed keep the primary link in ctfileUrl.
+ */
+export interface UploadProgressRecord {
+  signature: string;
+  primaryUrl?: string;
+  primaryShortUrl?: string;
+  primaryFolderUrl?: string;
+  ctfileUrl?: string;
+  ctfileShortUrl?: string;
+  ctfileFolderUrl?: string;
+  uploadDate: string;
+  replicas?: Record<string, ReplicaStatus>;   // Missing in records written before replication
+}
+
+/**
+ * Upload progress file structure, keyed by filename
+ */
+export interface UploadProgress {
+  [filename: string]: UploadProgressRecord;
 }
 
 /**
@@ -67,9 +203,11 @@ export interface DownloadOptions {
   url: string;
   outputPath: string;
   signature: string;
+  signaturePolicy?: SignaturePolicy;
   headers?: Record<string, string>;
   maxRetries?: number;
   showProgress?: boolean;
+  reserveSpace?: (bytes: number) => Promise<() => void>;   // Called before writing; throws to refuse the download
 }
 
 /**
@@ -80,5 +218,9 @@ export interface DownloadResult {
   filePath: string;
   fileSize: number;
   verified: boolean;
+  signatureCheck?: SignatureCheck;
+  md5?: string;
+  sha256?: string;
+  lastModified?: string;   // Last-Modified header of the response
   error?: string;
 }
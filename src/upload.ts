@@ -6,23 +6,44 @@
  * Uploads downloaded files to CTFile and generates README with download links
  *
  * Features:
- * - Uploads files to CTFile cloud storage
+ * - Uploads files to the configured storage backends (STORAGE_BACKENDS, default: ctfile,webdav)
+ * - Fallback mode: falls back to the next backend when an upload fails or the file is too large
+ * - Replicate mode (UPLOAD_MODE=replicate): uploads every file to all backends,
+ *   tracking status, URLs and retries per backend
+ * - Optional verification (UPLOAD_VERIFY=true): checks size/MD5/ETag or read-back
+ *   samples of each new copy and re-uploads on mismatch
  * - Automatically creates monthly folders (YYYY-MM format)
  * - Generates README with file info, architecture, update time, and download links
  * - Tracks upload status and generates summary
+ * - With CATALOG_UPLOAD=true, regenerates PACKAGES.md / catalog.json and
+ *   uploads them to every backend after the upload
  *
  * Usage:
  *   bun run src/upload.ts
  */
 
 import { join } from 'path';
-import { CTFileClient } from './ctfile';
-import { getEnv, loadEnv, getEnvOrDefault } from './env';
-import { WebDAVClient } from './webdav-client';
+import { loadEnv, getEnvOrDefault } from './env';
 import { formatBytes } from './utils/format';
 import { promiseWithConcurrencySafe } from './utils/concurrency';
-import { getCurrentYearMonth } from './ctfile-utils';
-import type { PackageMetadata, UploadedPackage } from './types';
+import { groupPackagesByProduct } from './utils/packages';
+import { buildRemoteFolder, getProductFolderName, getRemotePathTemplate, getTimeZone } from './remote-path';
+import {
+  createStorageBackends,
+  getUploadMode,
+  joinRemotePath,
+  splitRemotePath,
+  verifyUpload,
+  type StorageBackend,
+  type StorageFolder,
+  type StorageUploadResult,
+  type VerificationResult,
+} from './storage';
+import { loadQuarantineRecords } from './quarantine';
+import { writeJsonState } from './ledger';
+import { cleanDownloads, getDownloadsPolicy } from './downloads-retention';
+import { generateCatalog, isCatalogUploadEnabled } from './catalog';
+import type { PackageMetadata, ReplicaStatus, UploadedPackage, UploadMode, UploadProgress, UploadProgressRecord } from './types';
 
 /**
  * Default concurrent upload limit
@@ -36,15 +57,10 @@ const DEFAULT_CONCURRENCY = 2;
  */
 const UPLOAD_PROGRESS_FILE = 'config/upload-progress.json';
 
-interface UploadProgress {
-  [filename: string]: {
-    signature: string;
-    ctfileUrl: string;
-    ctfileShortUrl?: string;
-    ctfileFolderUrl?: string;
-    uploadDate: string;
-  };
-}
+/**
+ * Re-uploads after a failed verification before the upload counts as failed
+ */
+const MAX_VERIFY_REUPLOADS = 1;
 
 /**
  * Load upload progress from file
@@ -64,14 +80,20 @@ async function loadUploadProgress(progressFilePath: string): Promise<UploadProgr
 }
 
 /**
- * Save upload progress to file
+ * Serializes progress saves from concurrent uploads
  */
-async function saveUploadProgress(progressFilePath: string, progress: UploadProgress): Promise<void> {
-  try {
-    await Bun.write(progressFilePath, JSON.stringify(progress, null, 2));
-  } catch (error) {
-    console.warn(`  ⚠ Failed to save upload progress: ${error instanceof Error ? error.message : error}`);
-  }
+let progressWrites: Promise<void> = Promise.resolve();
+
+/**
+ * Save upload progress to file (atomically, via rename) and record it in the ledger
+ * Saves run one after another; a failed save is reported to its caller only
+ */
+function saveUploadProgress(progressFilePath: string, progress: UploadProgress): Promise<void> {
+  const write = progressWrites.then(() =>
+    writeJsonState(progressFilePath, progress, ledger => ledger.syncUploads(progress))
+  );
+  progressWrites = write.catch(() => {});
+  return write;
 }
 
 /**
@@ -105,13 +127,25 @@ async function matchFilesWithMetadata(
 
   const packages: UploadedPackage[] = [];
 
+  // Never publish packages that failed signature verification
+  const quarantined = await loadQuarantineRecords();
+
   for (const meta of metadata) {
+    if (quarantined.has(meta.filename)) {
+      console.log(`  ⛔ Quarantined, skipping: ${meta.filename} (${quarantined.get(meta.filename)!.check.reason})`);
+      continue;
+    }
+
     const localPath = join(packagesDir, meta.filename);
     const file = Bun.file(localPath);
 
     if (await file.exists()) {
+      // Checksums from download time are only valid for the same file
+      const checksumsValid = file.size === meta.fileSize;
       packages.push({
         ...meta,
+        md5: checksumsValid ? meta.md5 : undefined,
+        sha256: checksumsValid ? meta.sha256 : undefined,
         localPath,
       });
     } else {
@@ -123,81 +157,315 @@ async function matchFilesWithMetadata(
 }
 
 /**
- * Get product folder name from product name
- * Sanitize the name for use as a folder name
+ * Get the folder a package is uploaded to, from REMOTE_PATH_TEMPLATE
+ * e.g., "Apache84/2025-11" with the default "{product}/{month}" (same on every storage backend)
  */
-function getProductFolderName(productName: string): string {
-  // Remove special characters and spaces, replace with underscores
-  return productName
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, '_')
-    .replace(/_+/g, '_')
-    .trim();
+function getPackageFolder(pkg: UploadedPackage, template: string, timeZone: string): string {
+  return buildRemoteFolder({
+    productName: pkg.productName,
+    version: pkg.version,
+    architecture: pkg.architecture,
+    publishedDate: pkg.publishedDate,
+    uploadDate: new Date().toISOString(),
+  }, template, timeZone);
 }
 
 /**
- * Get or create product folder with monthly subfolder
- * Returns the monthly folder ID, URL, and WebDAV path
+ * Build the replica state for a successful upload
  */
-async function getProductMonthlyFolder(
-  ctfileClient: CTFileClient,
-  rootFolderId: string,
-  productName: string
-): Promise<{ folderId: string; folderUrl: string; webdavPath: string }> {
-  const yearMonth = getCurrentYearMonth();
-  const productFolderName = getProductFolderName(productName);
-
-  console.log(`\n📁 Setting up folder structure for: ${productName}`);
-  console.log(`  Product folder: ${productFolderName}`);
-  console.log(`  Monthly folder: ${yearMonth}`);
-  console.log(`  Root folder ID: ${rootFolderId}`);
+function toUploadedReplica(
+  result: StorageUploadResult,
+  previous?: ReplicaStatus,
+  verification?: VerificationResult
+): ReplicaStatus {
+  const now = new Date().toISOString();
+  return {
+    status: 'uploaded',
+    remotePath: result.remotePath,
+    url: result.url,
+    shortUrl: result.shortUrl,
+    folderUrl: result.folderUrl,
+    expiresAt: result.expiresAt,
+    uploadDate: now,
+    attempts: (previous?.attempts || 0) + 1,
+    lastAttempt: now,
+    verifiedAt: verification?.ok ? now : undefined,
+    verifiedBy: verification?.ok ? verification.method : undefined,
+  };
+}
 
-  try {
-    // Step 1: Get or create product folder
-    const productFolder = await ctfileClient.findOrCreateFolder(
-      productFolderName,
-      rootFolderId,
-      true
-    );
-    console.log(`  ✓ Product folder ready: ${productFolder.folderId}`);
-
-    // Step 2: Get or create monthly folder under product folder
-    const monthlyFolder = await ctfileClient.findOrCreateFolder(
-      yearMonth,
-      productFolder.folderId,
-      true
-    );
-    console.log(`  ✓ Monthly folder ready: ${monthlyFolder.folderId}`);
-    console.log(`  ✓ Folder URL: ${monthlyFolder.folderUrl}`);
-
-    // Build WebDAV path: ProductName/YYYY-MM
-    const webdavPath = `${productFolderName}/${yearMonth}`;
-    console.log(`  ✓ WebDAV path: ${webdavPath}`);
-
-    return {
-      folderId: monthlyFolder.folderId,
-      folderUrl: monthlyFolder.folderUrl || '',
-      webdavPath: webdavPath,
-    };
-  } catch (error) {
-    console.error(`  ✗ Failed to create folder structure: ${error instanceof Error ? error.message : error}`);
-    throw error;
+/**
+ * Upload a package to one backend, optionally verifying the remote copy
+ *
+ * On a mismatch the remote file is deleted and uploaded again, up to
+ * MAX_VERIFY_REUPLOADS times; after that the upload counts as failed.
+ */
+async function uploadToBackend(
+  pkg: UploadedPackage,
+  backend: StorageBackend,
+  folder: StorageFolder,
+  verify: boolean
+): Promise<{ result: StorageUploadResult; verification?: VerificationResult }> {
+  for (let attempt = 0; ; attempt++) {
+    const result = await backend.upload(pkg.localPath, folder, { md5: pkg.md5, sha256: pkg.sha256 });
+
+    if (!verify) {
+      return { result };
+    }
+
+    console.log(`  🔍 Verifying ${backend.name} copy...`);
+    const verification = await verifyUpload(backend, result.remotePath, pkg.localPath, {
+      size: pkg.fileSize,
+      md5: pkg.md5,
+    });
+
+    if (verification.ok) {
+      console.log(`  ✓ Verified (${verification.method})`);
+      return { result, verification };
+    }
+
+    console.error(`  ✗ Verification failed: ${verification.error}`);
+    if (attempt >= MAX_VERIFY_REUPLOADS) {
+      throw new Error(`Verification failed: ${verification.error}`);
+    }
+
+    console.log(`  🔄 Deleting remote copy and uploading again...`);
+    await backend.delete(result.remotePath);
   }
 }
 
 /**
- * Upload files to CTFile, organized by product with concurrent upload support
- * Failed uploads will retry using WebDAV as fallback
+ * Record replica URLs on the package
+ * The first uploaded replica in backend order becomes the primary download URL,
+ * skipping replicas whose URL expires (S3 presigned) unless no other is uploaded;
+ * the ctfile* links are only set when the CTFile replica is uploaded
+ * @returns false if no replica is uploaded
+ */
+function applyReplicas(
+  pkg: UploadedPackage,
+  replicas: Record<string, ReplicaStatus>,
+  backends: StorageBackend[]
+): boolean {
+  pkg.replicas = replicas;
+
+  const order = (name: string) => {
+    const index = backends.findIndex(b => b.name === name);
+    return index === -1 ? backends.length : index;
+  };
+  const uploaded = Object.keys(replicas)
+    .filter(name => replicas[name].status === 'uploaded')
+    .sort((a, b) => Number(!!replicas[a].expiresAt) - Number(!!replicas[b].expiresAt) || order(a) - order(b));
+
+  pkg.ctfileUrl = undefined;
+  pkg.ctfileShortUrl = undefined;
+  pkg.ctfileFolderUrl = undefined;
+
+  for (const name of uploaded) {
+    const replica = replicas[name];
+    if (name === 'ctfile') {
+      pkg.ctfileUrl = replica.url;
+      pkg.ctfileShortUrl = replica.shortUrl;
+      pkg.ctfileFolderUrl = replica.folderUrl;
+    }
+    if (name === 'webdav') {
+      pkg.webdavUrl = replica.url;
+    }
+    if (name === 's3') {
+      pkg.s3Url = replica.url;
+      pkg.s3UrlExpiresAt = replica.expiresAt;
+    }
+    if (name === 'local') {
+      pkg.localMirrorUrl = replica.url;
+    }
+  }
+
+  if (uploaded.length === 0) {
+    return false;
+  }
+
+  const primary = replicas[uploaded[0]];
+  pkg.primaryUrl = primary.url;
+  pkg.primaryShortUrl = primary.shortUrl;
+  pkg.primaryFolderUrl = primary.folderUrl;
+  pkg.uploadDate = primary.uploadDate;
+  pkg.uploadMethod = uploaded[0];
+  return true;
+}
+
+/**
+ * Build the upload progress record of a package with at least one replica
+ */
+function toProgressRecord(pkg: UploadedPackage): UploadProgressRecord {
+  return {
+    signature: pkg.signature,
+    primaryUrl: pkg.primaryUrl,
+    primaryShortUrl: pkg.primaryShortUrl,
+    primaryFolderUrl: pkg.primaryFolderUrl,
+    ctfileUrl: pkg.ctfileUrl,
+    ctfileShortUrl: pkg.ctfileShortUrl,
+    ctfileFolderUrl: pkg.ctfileFolderUrl,
+    uploadDate: pkg.uploadDate!,
+    replicas: pkg.replicas,
+  };
+}
+
+/**
+ * Work out which backends hold a package recorded before replicas were tracked
+ * Old records only have one URL, so every backend is asked whether the file
+ * exists in the monthly folder of the original upload
+ */
+async function findLegacyReplicas(
+  pkg: UploadedPackage,
+  record: UploadProgressRecord,
+  backends: StorageBackend[]
+): Promise<Record<string, ReplicaStatus>> {
+  const remotePath = joinRemotePath(
+    getProductFolderName(pkg.productName),
+    record.uploadDate.substring(0, 7),
+    pkg.filename
+  );
+  const replicas: Record<string, ReplicaStatus> = {};
+
+  for (const backend of backends) {
+    try {
+      if (!await backend.exists(remotePath)) {
+        continue;
+      }
+
+      // CTFile URLs can't be derived from the path, so reuse the recorded ones
+      const url = backend.getPublicUrl(remotePath);
+      replicas[backend.name] = {
+        status: 'uploaded',
+        remotePath,
+        url: url || record.ctfileUrl,
+        shortUrl: url ? undefined : record.ctfileShortUrl,
+        folderUrl: url ? undefined : record.ctfileFolderUrl,
+        uploadDate: record.uploadDate,
+        attempts: 1,
+      };
+    } catch (error) {
+      console.warn(`  ⚠ Could not check ${backend.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return replicas;
+}
+
+/**
+ * Upload a package to the first backend that accepts it
+ * Backends are tried in configured order; each failure falls through to the next one
+ */
+async function uploadWithFallback(
+  pkg: UploadedPackage,
+  backends: StorageBackend[],
+  getFolder: (backend: StorageBackend) => Promise<StorageFolder>,
+  verify: boolean
+): Promise<{ result: StorageUploadResult; verification?: VerificationResult }> {
+  const errors: string[] = [];
+
+  for (const backend of backends) {
+    if (backend.maxFileSize !== undefined && pkg.fileSize > backend.maxFileSize) {
+      console.log(`  ⏭  Skipping ${backend.name}: file exceeds ${formatBytes(backend.maxFileSize)} limit`);
+      continue;
+    }
+
+    if (errors.length > 0) {
+      console.log(`  🔄 Retrying with ${backend.name}...`);
+    }
+
+    try {
+      const folder = await getFolder(backend);
+      return await uploadToBackend(pkg, backend, folder, verify);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`  ✗ ${backend.name} upload failed: ${message}`);
+      errors.push(`${backend.name}: ${message}`);
+    }
+  }
+
+  throw new Error(errors.length > 0 ? errors.join(', ') : 'File exceeds the size limit of every storage backend');
+}
+
+/**
+ * Upload a package to every backend that doesn't have it yet
+ * Each backend keeps its own status, so a failed replica is retried on the
+ * next run without uploading again to the backends that succeeded
+ */
+async function uploadReplicas(
+  pkg: UploadedPackage,
+  backends: StorageBackend[],
+  folderPath: string,
+  getFolder: (backend: StorageBackend) => Promise<StorageFolder>,
+  replicas: Record<string, ReplicaStatus>,
+  verify: boolean
+): Promise<void> {
+  for (const backend of backends) {
+    const previous = replicas[backend.name];
+
+    if (previous?.status === 'uploaded') {
+      console.log(`  ✓ ${backend.name}: already uploaded`);
+      continue;
+    }
+
+    const remotePath = joinRemotePath(folderPath, pkg.filename);
+
+    if (backend.maxFileSize !== undefined && pkg.fileSize > backend.maxFileSize) {
+      console.log(`  ⏭  Skipping ${backend.name}: file exceeds ${formatBytes(backend.maxFileSize)} limit`);
+      replicas[backend.name] = {
+        status: 'skipped',
+        remotePath,
+        attempts: previous?.attempts || 0,
+        lastError: `File exceeds ${formatBytes(backend.maxFileSize)} limit`,
+      };
+      continue;
+    }
+
+    if (previous?.status === 'failed') {
+      console.log(`  🔄 Retrying ${backend.name} (attempt ${previous.attempts + 1})...`);
+    }
+
+    try {
+      const folder = await getFolder(backend);
+      const { result, verification } = await uploadToBackend(pkg, backend, folder, verify);
+      replicas[backend.name] = toUploadedReplica(result, previous, verification);
+      console.log(`  ✓ ${backend.name}: ${result.url}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`  ✗ ${backend.name} upload failed: ${message}`);
+      replicas[backend.name] = {
+        status: 'failed',
+        remotePath,
+        attempts: (previous?.attempts || 0) + 1,
+        lastAttempt: new Date().toISOString(),
+        lastError: message,
+      };
+    }
+  }
+}
+
+/**
+ * Upload files to the configured storage backends, organized by product with concurrent upload support
+ * In fallback mode failed uploads fall back to the next backend in order;
+ * in replicate mode every backend receives a copy
+ * With verify, every new copy is checked against the local file (and
+ * re-uploaded on mismatch) before it is recorded
  */
 async function uploadPackages(
   packages: UploadedPackage[],
-  ctfileClient: CTFileClient,
-  rootFolderId: string,
-  webdavClient: WebDAVClient | null,
+  backends: StorageBackend[],
+  mode: UploadMode = 'fallback',
   concurrency: number = DEFAULT_CONCURRENCY,
-  progressFilePath: string = UPLOAD_PROGRESS_FILE
+  progressFilePath: string = UPLOAD_PROGRESS_FILE,
+  verify: boolean = false
 ): Promise<UploadedPackage[]> {
-  console.log(`\n⬆️  Uploading ${packages.length} files to CTFile...`);
+  console.log(`\n⬆️  Uploading ${packages.length} files...`);
+  console.log(`   Upload mode: ${mode}`);
+  console.log(`   Verify after upload: ${verify ? 'yes' : 'no'}`);
+
+  const template = getRemotePathTemplate();
+  const timeZone = getTimeZone();
+  console.log(`   Remote path: ${template}/<file> (${timeZone})`);
+  console.log(`   Storage backends: ${backends.map(b => b.name).join(mode === 'replicate' ? ' + ' : ' → ')}`);
   console.log(`   Concurrent uploads: ${concurrency}`);
   console.log('='.repeat(60));
 
@@ -207,207 +475,166 @@ async function uploadPackages(
   const uploadedCount = Object.keys(uploadProgress).length;
   console.log(`  ✓ Found ${uploadedCount} previously uploaded files`);
 
+  // Record an upload in the progress file and the ledger
+  const recordProgress = async (pkg: UploadedPackage) => {
+    const record = toProgressRecord(pkg);
+    uploadProgress[pkg.filename] = record;
+    await saveUploadProgress(progressFilePath, uploadProgress);
+  };
+
   // Group packages by product
   const groupedPackages = groupPackagesByProduct(packages);
   console.log(`\n📦 Found ${groupedPackages.size} products to upload`);
 
   let completed = 0;
+  let partial = 0;
   let failed = 0;
   let skipped = 0;
   let totalProcessed = 0;
   const totalFiles = packages.length;
 
+  // Folders are created lazily, once per backend and path, and shared by concurrent tasks
+  const folders = new Map<string, Promise<StorageFolder>>();
+  const getSharedFolder = (backend: StorageBackend, folderPath: string): Promise<StorageFolder> => {
+    const key = `${backend.name}:${folderPath}`;
+    if (!folders.has(key)) {
+      console.log(`\n📁 Setting up ${backend.name} folder: ${folderPath}`);
+      folders.set(key, backend.ensureFolder(folderPath));
+    }
+    return folders.get(key)!;
+  };
+
   // Upload each product group
   for (const [productName, productPackages] of groupedPackages) {
     console.log(`\n${'='.repeat(60)}`);
     console.log(`📂 Product: ${productName} (${productPackages.length} files)`);
     console.log('='.repeat(60));
 
-    try {
-      // Get or create product/monthly folder structure
-      const folderInfo = await getProductMonthlyFolder(
-        ctfileClient,
-        rootFolderId,
-        productName
-      );
-
-      // Create upload tasks for all files in this product
-      const uploadTasks = productPackages.map((pkg, index) => {
-        return async () => {
-          const taskNum = totalProcessed + index + 1;
-
-          console.log(
-            `\n[${taskNum}/${totalFiles}] ${pkg.productName} - ${pkg.architecture}`
-          );
-          console.log(`  File: ${pkg.filename}`);
-          console.log(`  Size: ${formatBytes(pkg.fileSize)}`);
-
-          // Check if file was already uploaded (using signature as unique identifier)
-          const previousUpload = uploadProgress[pkg.filename];
-          if (previousUpload && previousUpload.signature === pkg.signature) {
-            console.log(`  ⏭️  Already uploaded, skipping...`);
-            console.log(`  URL: ${previousUpload.ctfileUrl}`);
-
-            // Restore from progress
+    // Create upload tasks for all files in this product
+    const uploadTasks = productPackages.map((pkg, index) => {
+      return async () => {
+        const taskNum = totalProcessed + index + 1;
+
+        console.log(
+          `\n[${taskNum}/${totalFiles}] ${pkg.productName} - ${pkg.architecture}`
+        );
+        console.log(`  File: ${pkg.filename}`);
+        console.log(`  Size: ${formatBytes(pkg.fileSize)}`);
+
+        const showProgress = () => console.log(
+          `\n  Overall Progress: ${completed + partial + failed + skipped}/${totalFiles} ` +
+          `(✓ ${completed} | ◐ ${partial} | ⏭ ${skipped} | ✗ ${failed})`
+        );
+
+        // Check if file was already uploaded (using signature as unique identifier)
+        const previousUpload = uploadProgress[pkg.filename];
+        const sameFile = previousUpload?.signature === pkg.signature;
+
+        // Replica state carries over only for the same file
+        let replicas: Record<string, ReplicaStatus> = {};
+        if (sameFile && mode === 'replicate') {
+          replicas = previousUpload.replicas
+            ? { ...previousUpload.replicas }
+            : await findLegacyReplicas(pkg, previousUpload, backends);
+        }
+
+        const pending = backends.filter(b =>
+          replicas[b.name]?.status !== 'uploaded' &&
+          (b.maxFileSize === undefined || pkg.fileSize <= b.maxFileSize)
+        );
+
+        if (sameFile && (mode === 'fallback' || pending.length === 0)) {
+          console.log(`  ⏭️  Already uploaded, skipping...`);
+          console.log(`  URL: ${previousUpload.primaryUrl || previousUpload.ctfileUrl}`);
+
+          // Restore from progress
+          if (mode === 'replicate' || previousUpload.replicas) {
+            applyReplicas(pkg, mode === 'replicate' ? replicas : previousUpload.replicas!, backends);
+            if (!previousUpload.replicas) {
+              // Keep the replicas found for an old record
+              await recordProgress(pkg);
+            }
+          } else {
+            // Records without replicas only had one backend, and kept its link in ctfileUrl
+            pkg.primaryUrl = previousUpload.primaryUrl || previousUpload.ctfileUrl;
+            pkg.primaryShortUrl = previousUpload.primaryShortUrl || previousUpload.ctfileShortUrl;
+            pkg.primaryFolderUrl = previousUpload.primaryFolderUrl || previousUpload.ctfileFolderUrl;
             pkg.ctfileUrl = previousUpload.ctfileUrl;
             pkg.ctfileShortUrl = previousUpload.ctfileShortUrl;
-            pkg.ctfileFolderUrl = previousUpload.ctfileFolderUrl || folderInfo.folderUrl;
+            pkg.ctfileFolderUrl = previousUpload.ctfileFolderUrl;
             pkg.uploadDate = previousUpload.uploadDate;
+          }
 
-            skipped++;
-            console.log(
-              `\n  Overall Progress: ${completed + failed + skipped}/${totalFiles} ` +
-              `(✓ ${completed} | ⏭ ${skipped} | ✗ ${failed})`
-            );
-            return;
+          skipped++;
+          showProgress();
+          return;
+        }
+
+        // New replicas of a file go next to its existing copies, even if the template
+        // would now give another folder (e.g., a later {month})
+        const existingPath = Object.values(replicas).find(r => r.status === 'uploaded')?.remotePath;
+        const folderPath = existingPath
+          ? splitRemotePath(existingPath).folderPath
+          : getPackageFolder(pkg, template, timeZone);
+        const getFolder = (backend: StorageBackend) => getSharedFolder(backend, folderPath);
+        console.log(`  Folder: ${folderPath}`);
+
+        if (mode === 'replicate') {
+          console.log(`  Replicas to upload: ${pending.map(b => b.name).join(', ')}`);
+          await uploadReplicas(pkg, backends, folderPath, getFolder, replicas, verify);
+
+          const failedReplicas = Object.entries(replicas).filter(([, r]) => r.status === 'failed');
+          if (failedReplicas.length > 0) {
+            pkg.uploadError = failedReplicas.map(([name, r]) => `${name}: ${r.lastError}`).join(', ');
           }
 
-          try {
-            // Check if this is a large file that should use WebDAV directly
-            const isLargeFile = pkg.fileSize > parseInt(getEnvOrDefault('MAX_UPLOAD_FILE_SIZE', '1073741824'));
-
-            if (isLargeFile && webdavClient) {
-              console.log(`  📦 Large file detected, using WebDAV directly...`);
-
-              // Use WebDAV path from API: ProductName/YYYY-MM/filename
-              const remotePath = `/${folderInfo.webdavPath}/${pkg.filename}`;
-              const folderPath = `/${folderInfo.webdavPath}`;
-
-              const webdavResult = await webdavClient.uploadFile(
-                pkg.localPath,
-                remotePath,
-                folderPath
-              );
-
-              pkg.webdavUrl = webdavResult.downloadUrl;
-              pkg.ctfileUrl = webdavResult.downloadUrl; // Use as primary URL
-              pkg.ctfileFolderUrl = folderInfo.folderUrl;
-              pkg.uploadDate = new Date().toISOString();
-              pkg.uploadMethod = 'webdav';
-
-              // Save progress immediately after successful upload
-              uploadProgress[pkg.filename] = {
-                signature: pkg.signature,
-                ctfileUrl: pkg.webdavUrl,
-                ctfileFolderUrl: pkg.ctfileFolderUrl,
-                uploadDate: pkg.uploadDate,
-              };
-              await saveUploadProgress(progressFilePath, uploadProgress);
+          if (!applyReplicas(pkg, replicas, backends)) {
+            failed++;
+          } else {
+            // Save progress immediately, including the state of failed replicas
+            await recordProgress(pkg);
 
-              completed++;
-              console.log(`  ✓ Uploaded successfully via WebDAV`);
-              console.log(`  URL: ${webdavResult.downloadUrl}`);
+            if (failedReplicas.length > 0) {
+              partial++;
+              console.log(`  ◐ Uploaded to ${Object.keys(replicas).length - failedReplicas.length}/${Object.keys(replicas).length} backends`);
             } else {
-              // Normal file, use CTFile
-              const result = await ctfileClient.uploadFile(folderInfo.folderId, pkg.localPath, true);
-
-              pkg.ctfileUrl = result.downloadUrl;
-              pkg.ctfileShortUrl = result.shortUrl;
-              pkg.ctfileFolderUrl = folderInfo.folderUrl;
-              pkg.uploadDate = new Date().toISOString();
-              pkg.uploadMethod = 'ctfile';
-
-              // Save progress immediately after successful upload
-              uploadProgress[pkg.filename] = {
-                signature: pkg.signature,
-                ctfileUrl: pkg.ctfileUrl,
-                ctfileShortUrl: pkg.ctfileShortUrl,
-                ctfileFolderUrl: pkg.ctfileFolderUrl,
-                uploadDate: pkg.uploadDate,
-              };
-              await saveUploadProgress(progressFilePath, uploadProgress);
-
               completed++;
-              console.log(`  ✓ Uploaded successfully via CTFile`);
-              console.log(`  URL: ${result.downloadUrl}`);
-              if (result.shortUrl) {
-                console.log(`  Short URL: ${result.shortUrl}`);
-              }
-            }
-          } catch (error) {
-            const uploadError = error instanceof Error ? error.message : String(error);
-            const isLargeFile = pkg.fileSize > parseInt(getEnvOrDefault('MAX_UPLOAD_FILE_SIZE', '1073741824'));
-
-            // If it was a large file that failed WebDAV, don't retry
-            if (isLargeFile) {
-              console.error(`  ✗ WebDAV upload failed: ${uploadError}`);
-              failed++;
-              pkg.uploadError = uploadError;
-            } else {
-              // Normal file failed CTFile, try WebDAV as fallback
-              console.error(`  ✗ CTFile upload failed: ${uploadError}`);
-
-              // Try WebDAV as fallback if available
-              if (webdavClient) {
-                console.log(`  🔄 Retrying with WebDAV...`);
-
-                try {
-                  // Use WebDAV path from API: ProductName/YYYY-MM/filename
-                  const remotePath = `/${folderInfo.webdavPath}/${pkg.filename}`;
-                  const folderPath = `/${folderInfo.webdavPath}`;
-
-                  const webdavResult = await webdavClient.uploadFile(
-                    pkg.localPath,
-                    remotePath,
-                    folderPath
-                  );
-
-                  pkg.webdavUrl = webdavResult.downloadUrl;
-                  pkg.ctfileUrl = webdavResult.downloadUrl; // Use as primary URL
-                  pkg.ctfileFolderUrl = folderInfo.folderUrl;
-                  pkg.uploadDate = new Date().toISOString();
-                  pkg.uploadMethod = 'webdav';
-
-                  // Save progress after WebDAV upload
-                  uploadProgress[pkg.filename] = {
-                    signature: pkg.signature,
-                    ctfileUrl: pkg.webdavUrl,
-                    ctfileFolderUrl: pkg.ctfileFolderUrl,
-                    uploadDate: pkg.uploadDate,
-                  };
-                  await saveUploadProgress(progressFilePath, uploadProgress);
-
-                  completed++;
-                  console.log(`  ✓ Uploaded successfully via WebDAV (fallback)`);
-                  console.log(`  URL: ${webdavResult.downloadUrl}`);
-                } catch (webdavError) {
-                  // Both methods failed
-                  failed++;
-                  pkg.uploadError = `CTFile: ${uploadError}, WebDAV: ${webdavError instanceof Error ? webdavError.message : String(webdavError)}`;
-                  console.error(`  ✗ WebDAV upload also failed: ${webdavError instanceof Error ? webdavError.message : String(webdavError)}`);
-                }
-              } else {
-                // No WebDAV fallback available
-                failed++;
-                pkg.uploadError = uploadError;
-              }
+              console.log(`  ✓ Uploaded to all backends`);
             }
           }
 
-          // Show overall progress
-          console.log(
-            `\n  Overall Progress: ${completed + failed + skipped}/${totalFiles} ` +
-            `(✓ ${completed} | ⏭ ${skipped} | ✗ ${failed})`
-          );
-        };
-      });
+          showProgress();
+          return;
+        }
 
-      // Execute uploads with concurrency limit
-      await promiseWithConcurrencySafe(uploadTasks, concurrency);
+        try {
+          const { result, verification } = await uploadWithFallback(pkg, backends, getFolder, verify);
+          applyReplicas(pkg, { [result.backend]: toUploadedReplica(result, undefined, verification) }, backends);
 
-      // Update total processed after all tasks complete
-      totalProcessed += productPackages.length;
-    } catch (error) {
-      console.error(`\n✗ Failed to setup folders for ${productName}: ${error instanceof Error ? error.message : error}`);
-      // Mark all files in this product as failed
-      for (const pkg of productPackages) {
-        if (!pkg.ctfileUrl) {
-          pkg.uploadError = `Folder setup failed: ${error instanceof Error ? error.message : error}`;
+          // Save progress immediately after successful upload
+          await recordProgress(pkg);
+
+          completed++;
+          console.log(`  ✓ Uploaded successfully via ${result.backend}`);
+          console.log(`  URL: ${result.url}`);
+          if (result.shortUrl) {
+            console.log(`  Short URL: ${result.shortUrl}`);
+          }
+        } catch (error) {
           failed++;
-          totalProcessed++;
+          pkg.uploadError = error instanceof Error ? error.message : String(error);
         }
-      }
-    }
+
+        // Show overall progress
+        showProgress();
+      };
+    });
+
+    // Execute uploads with concurrency limit
+    await promiseWithConcurrencySafe(uploadTasks, concurrency);
+
+    // Update total processed after all tasks complete
+    totalProcessed += productPackages.length;
   }
 
   console.log('\n' + '='.repeat(60));
@@ -415,28 +642,15 @@ async function uploadPackages(
   console.log('='.repeat(60));
   console.log(`  Total files: ${totalFiles}`);
   console.log(`  ✓ Successful: ${completed}`);
+  if (mode === 'replicate') {
+    console.log(`  ◐ Partially replicated: ${partial}`);
+  }
   console.log(`  ⏭  Skipped (already uploaded): ${skipped}`);
   console.log(`  ✗ Failed: ${failed}`);
 
   return packages;
 }
 
-/**
- * Group packages by product name
- */
-function groupPackagesByProduct(packages: UploadedPackage[]): Map<string, UploadedPackage[]> {
-  const groups = new Map<string, UploadedPackage[]>();
-
-  for (const pkg of packages) {
-    if (!groups.has(pkg.productName)) {
-      groups.set(pkg.productName, []);
-    }
-    groups.get(pkg.productName)!.push(pkg);
-  }
-
-  return groups;
-}
-
 /**
  * Main upload and share function
  */
@@ -481,82 +695,79 @@ async function main() {
   let packages = await matchFilesWithMetadata(packagesDir, metadata);
   console.log(`  ✓ Found ${packages.length} downloaded files`);
 
-  // Check for large files and WebDAV configuration
-  const MAX_FILE_SIZE = parseInt(getEnvOrDefault('MAX_UPLOAD_FILE_SIZE', '1073741824')); // 1GB default
-  const largeFiles = packages.filter(p => p.fileSize > MAX_FILE_SIZE);
+  if (packages.length === 0) {
+    console.log('\n⚠ No files to upload. Please download files first.');
+    return;
+  }
+
+  // Initialize storage backends in configured order
+  console.log('\n🔑 Initializing storage backends...');
+  const mode = getUploadMode();
+  const backends = createStorageBackends();
+  for (const backend of backends) {
+    const limit = backend.maxFileSize !== undefined ? ` (max ${formatBytes(backend.maxFileSize)})` : '';
+    console.log(`  ✓ ${backend.name}${limit}`);
+  }
+
+  // Large files can only go to backends without a (lower) size limit
+  const fitsAnyBackend = (pkg: UploadedPackage) =>
+    backends.some(b => b.maxFileSize === undefined || pkg.fileSize <= b.maxFileSize);
+  const largeFiles = packages.filter(p => backends.some(b => b.maxFileSize !== undefined && p.fileSize > b.maxFileSize));
 
   if (largeFiles.length > 0) {
-    console.log(`\n📦 Found ${largeFiles.length} large file(s) (>${(MAX_FILE_SIZE / 1024 / 1024 / 1024).toFixed(1)}GB):`);
+    console.log(`\n📦 Found ${largeFiles.length} large file(s):`);
     for (const file of largeFiles) {
       console.log(`  - ${file.filename} (${formatBytes(file.fileSize)})`);
     }
-    console.log('\n💡 Large files will be uploaded using WebDAV to avoid Bun FormData limitations.');
+    console.log('\n💡 Large files skip backends whose size limit they exceed (e.g. CTFile MAX_UPLOAD_FILE_SIZE).');
   }
 
-  if (packages.length === 0) {
-    console.log('\n⚠ No files to upload. Please download files first.');
-    return;
+  const unplaceable = packages.filter(p => !fitsAnyBackend(p));
+  if (unplaceable.length > 0) {
+    console.error('\n❌ No configured storage backend accepts these files:');
+    for (const file of unplaceable) {
+      console.error(`  - ${file.filename} (${formatBytes(file.fileSize)})`);
+    }
+    console.error('  Configure a backend without a size limit or raise/unset MAX_UPLOAD_FILE_SIZE.');
+    process.exit(1);
   }
 
-  // Initialize CTFile client
-  console.log('\n🔑 Initializing CTFile client...');
-  const session = getEnv('CTFILE_SESSION');
-  const rootFolderId = getEnv('CTFILE_FOLDER_ID');
-
-  const ctfileClient = new CTFileClient(session);
-  console.log('  ✓ CTFile client ready');
-  console.log(`  Root folder ID: ${rootFolderId}`);
-
   // Get concurrency setting from environment or use default
   const concurrency = process.env.UPLOAD_CONCURRENCY
     ? parseInt(process.env.UPLOAD_CONCURRENCY, 10)
     : DEFAULT_CONCURRENCY;
 
-  // Initialize WebDAV client (required for large files, optional fallback for others)
-  let webdavClient: WebDAVClient | null = null;
-  const webdavUrl = getEnvOrDefault('WEBDAV_URL', '');
-  const webdavUsername = getEnvOrDefault('WEBDAV_USERNAME', '');
-  const webdavPassword = getEnvOrDefault('WEBDAV_PASSWORD', '');
-
-  if (webdavUrl && webdavUsername && webdavPassword) {
-    console.log('\n🌐 Initializing WebDAV client...');
-    webdavClient = new WebDAVClient({
-      serverUrl: webdavUrl,
-      username: webdavUsername,
-      password: webdavPassword,
-      rootPath: getEnvOrDefault('WEBDAV_ROOT_PATH', '/'),
-    });
-    console.log('  ✓ WebDAV client ready');
-    console.log(`  Server: ${webdavUrl}`);
-    if (largeFiles.length > 0) {
-      console.log(`  📦 Will use WebDAV for ${largeFiles.length} large file(s)`);
-    }
-  } else {
-    if (largeFiles.length > 0) {
-      console.error('\n❌ WebDAV not configured but required for large files!');
-      console.error('  Set WEBDAV_URL, WEBDAV_USERNAME, WEBDAV_PASSWORD in .env');
-      console.error('  Large files cannot be uploaded without WebDAV configuration.');
-      process.exit(1);
-    }
-    console.log('\n⚠ WebDAV not configured - no fallback available for failed uploads');
-    console.log('  Set WEBDAV_URL, WEBDAV_USERNAME, WEBDAV_PASSWORD to enable WebDAV fallback');
-  }
+  // Optionally verify every upload against the local file (UPLOAD_VERIFY=true)
+  const verify = getEnvOrDefault('UPLOAD_VERIFY', 'false') === 'true';
 
   // Upload files (will create product/monthly folder structure automatically)
-  packages = await uploadPackages(packages, ctfileClient, rootFolderId, webdavClient, concurrency);
+  packages = await uploadPackages(packages, backends, mode, concurrency, UPLOAD_PROGRESS_FILE, verify);
 
   // Save updated metadata with CTFile links
   const updatedMetadataPath = metadataPath.replace('.json', '-uploaded.json');
-  await Bun.write(updatedMetadataPath, JSON.stringify(packages, null, 2));
+  await writeJsonState(updatedMetadataPath, packages, ledger => ledger.saveSnapshot('metadata-uploaded.json', packages));
   console.log(`✓ Updated metadata saved: ${updatedMetadataPath}`);
 
+  // Free downloads/ now that uploads are confirmed (DOWNLOADS_* policy)
+  const evictions = await cleanDownloads(packagesDir, getDownloadsPolicy());
+  if (evictions.length > 0) {
+    const freed = evictions.reduce((sum, e) => sum + e.file.size, 0);
+    console.log(`🗑  Removed ${evictions.length} file(s) from downloads (${formatBytes(freed)})`);
+  }
+
+  // Publish the catalog after every sync (CATALOG_UPLOAD=true)
+  if (isCatalogUploadEnabled()) {
+    console.log('\n📋 Generating package catalog...');
+    await generateCatalog(packages, backends);
+  }
+
   // Final summary
   console.log('\n' + '='.repeat(60));
   console.log('✓ Upload and share completed!');
   console.log('='.repeat(60));
   console.log(`  Metadata: ${updatedMetadataPath}`);
 
-  const failed = packages.filter(p => !p.ctfileUrl).length;
+  const failed = packages.filter(p => !p.primaryUrl).length;
 
   if (failed > 0) {
     console.log(`\n⚠ ${failed} file(s) failed to upload. Check logs above for details.`);
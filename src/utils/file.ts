@@ -4,7 +4,8 @@
  * Common file system operations
  */
 
-import { join, basename } from 'path';
+import { join, basename, dirname } from 'path';
+import { mkdir, rename, rm } from 'fs/promises';
 
 /**
  * Ensure directory exists (create if it doesn't)
@@ -44,3 +45,44 @@ export function getFilenameFromUrl(url: string): string {
   const pathname = urlObj.pathname;
   return basename(pathname);
 }
+
+/**
+ * Write a file atomically (via rename), so readers never see a half written file
+ * Each write uses its own temporary file, so concurrent writers of the same
+ * file don't rename each other's temporary file away
+ *
+ * @param filePath - Target file
+ * @param content - File content
+ */
+export async function writeFileAtomic(filePath: string, content: string | Uint8Array): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2, 10)}.tmp`;
+  try {
+    await Bun.write(tempPath, content);
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Replace a directory with a new set of generated files
+ *
+ * The files are written to a temporary sibling directory which then replaces
+ * the old one, so files that are no longer generated disappear.
+ *
+ * @param dirPath - Target directory
+ * @param files - Files to write, with paths relative to dirPath
+ */
+export async function replaceDirectory(dirPath: string, files: { path: string; content: string }[]): Promise<void> {
+  const tempDir = `${dirPath}.tmp`;
+  await rm(tempDir, { recursive: true, force: true });
+  await mkdir(tempDir, { recursive: true });
+  for (const file of files) {
+    const filePath = join(tempDir, file.path);
+    await mkdir(dirname(filePath), { recursive: true });
+    await Bun.write(filePath, file.content);
+  }
+  await rm(dirPath, { recursive: true, force: true });
+  await rename(tempDir, dirPath);
+}
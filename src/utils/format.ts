@@ -63,3 +63,20 @@ export function formatDuration(ms: number): string {
   const remainingSeconds = seconds % 60;
   return `${minutes}m ${remainingSeconds}s`;
 }
+
+/**
+ * Format a date as "YYYY-MM-DD HH:mm:ss" in a timezone
+ *
+ * @param date - Date or ISO 8601 string
+ * @param timeZone - IANA timezone name
+ * @returns Formatted string, or the input unchanged if it is not a valid date
+ *
+ * @example
+ * formatDateTime('2025-11-08T04:00:00Z', 'Asia/Shanghai') // "2025-11-08 12:00:00"
+ */
+export function formatDateTime(date: Date | string, timeZone: string = 'UTC'): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  if (isNaN(value.getTime())) return String(date);
+  // sv-SE formats as "YYYY-MM-DD HH:mm:ss"
+  return value.toLocaleString('sv-SE', { timeZone, hour12: false });
+}
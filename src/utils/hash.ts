@@ -0,0 +1,107 @@
+/**
+ * Hashing Utilities
+ *
+ * Incremental MD5/SHA-256 hashing so large packages never need to be loaded into memory
+ */
+
+import { createHash, type Hash } from 'crypto';
+
+/**
+ * Hex-encoded digests of a file
+ */
+export interface FileDigests {
+  md5: string;
+  sha256: string;
+}
+
+/**
+ * Incremental hasher computing MD5 and SHA-256 in a single pass
+ *
+ * @example
+ * const hasher = new DigestHasher();
+ * for await (const chunk of stream) hasher.update(chunk);
+ * const { md5, sha256 } = hasher.digest();
+ */
+export class DigestHasher {
+  private md5: Hash = createHash('md5');
+  private sha256: Hash = createHash('sha256');
+  private bytes = 0;
+
+  /**
+   * Number of bytes fed into the hasher so far
+   */
+  get bytesHashed(): number {
+    return this.bytes;
+  }
+
+  update(chunk: Uint8Array): void {
+    this.md5.update(chunk);
+    this.sha256.update(chunk);
+    this.bytes += chunk.length;
+  }
+
+  digest(): FileDigests {
+    return {
+      md5: this.md5.digest('hex'),
+      sha256: this.sha256.digest('hex'),
+    };
+  }
+}
+
+/**
+ * Feed a file into a hasher using streaming (memory-efficient for large files)
+ *
+ * @param hasher - Hasher to update
+ * @param filePath - Path to file
+ * @param showProgress - Show progress for files larger than 100MB
+ */
+export async function hashFileInto(hasher: DigestHasher, filePath: string, showProgress: boolean = true): Promise<void> {
+  const file = Bun.file(filePath);
+  const fileSize = file.size;
+  const reader = file.stream().getReader();
+  const isLarge = showProgress && fileSize > 100 * 1024 * 1024;
+
+  let bytesProcessed = 0;
+  let lastLogTime = Date.now();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) break;
+
+      hasher.update(value);
+      bytesProcessed += value.length;
+
+      // Show progress every 1 second for large files
+      const now = Date.now();
+      if (isLarge && now - lastLogTime > 1000) {
+        const progress = ((bytesProcessed / fileSize) * 100).toFixed(1);
+        process.stdout.write(`\r  ⏳ Computing checksums: ${progress}%`);
+        lastLogTime = now;
+      }
+    }
+
+    // Clear progress line if it was shown
+    if (isLarge) {
+      process.stdout.write('\r\x1b[K');
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Calculate MD5 and SHA-256 of a file in a single streaming pass
+ *
+ * @param filePath - Path to file
+ * @returns Hex-encoded digests
+ *
+ * @example
+ * const { md5, sha256 } = await hashFile('downloads/Apache83_2465.83260_x86_64.qpkg');
+ */
+export async function hashFile(filePath: string): Promise<FileDigests> {
+  const hasher = new DigestHasher();
+  await hashFileInto(hasher, filePath);
+  return hasher.digest();
+}
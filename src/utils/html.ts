@@ -0,0 +1,19 @@
+/**
+ * HTML Utilities
+ *
+ * Helpers for the generated HTML pages (mirror indexes, download portal)
+ */
+
+/**
+ * Escape text for HTML output (element content and quoted attributes)
+ *
+ * @example
+ * escapeHtml('<a href="x">') // "&lt;a href=&quot;x&quot;&gt;"
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,27 @@
+/**
+ * Package Utilities
+ *
+ * Helpers shared by the upload script and the generated catalogs
+ */
+
+import type { PackageMetadata } from '../types';
+
+/**
+ * Group packages by product name, keeping the input order within each group
+ *
+ * @example
+ * groupPackagesByProduct(packages).get('Apache84')
+ * // [Apache84 x86_64, Apache84 arm_64, ...]
+ */
+export function groupPackagesByProduct<T extends PackageMetadata>(packages: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+
+  for (const pkg of packages) {
+    if (!groups.has(pkg.productName)) {
+      groups.set(pkg.productName, []);
+    }
+    groups.get(pkg.productName)!.push(pkg);
+  }
+
+  return groups;
+}
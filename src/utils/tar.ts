@@ -0,0 +1,219 @@
+/**
+ * Tar Utilities
+ *
+ * Minimal reader for tar headers (ustar, GNU long names, pax paths), enough
+ * to list archives and extract small members without unpacking to disk
+ */
+
+const BLOCK_SIZE = 512;
+
+/**
+ * A member of a tar archive
+ */
+export interface TarEntry {
+  path: string;
+  size: number;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+}
+
+/**
+ * Parsed header block
+ */
+interface TarHeader {
+  name: string;
+  size: number;
+  typeflag: string;
+}
+
+/**
+ * Read a NUL-terminated string field
+ */
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Parse a header block
+ * @returns null for an all-zero block (end of archive)
+ * @throws Error if the block is not a tar header (bad checksum)
+ */
+function parseHeader(block: Uint8Array): TarHeader | null {
+  if (block.every(byte => byte === 0)) {
+    return null;
+  }
+
+  // Checksum: sum of all bytes with the checksum field read as spaces
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  const checksum = parseInt(readString(block, 148, 8).trim(), 8);
+  if (checksum !== sum) {
+    throw new Error('Not a tar archive (header checksum mismatch)');
+  }
+
+  const name = readString(block, 0, 100);
+  const prefix = readString(block, 257, 6).startsWith('ustar') ? readString(block, 345, 155) : '';
+
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    size: parseInt(readString(block, 124, 12).trim() || '0', 8),
+    typeflag: String.fromCharCode(block[156] || 0x30),
+  };
+}
+
+/**
+ * Map a typeflag to an entry type
+ */
+function getEntryType(typeflag: string): TarEntry['type'] {
+  if (typeflag === '0' || typeflag === '\0' || typeflag === '7') return 'file';
+  if (typeflag === '5') return 'directory';
+  if (typeflag === '1' || typeflag === '2') return 'symlink';
+  return 'other';
+}
+
+/**
+ * Read the path from a pax extended header, if it has one
+ */
+function getPaxPath(data: Uint8Array): string | undefined {
+  const match = new TextDecoder().decode(data).match(/^\d+ path=(.*)$/m);
+  return match?.[1];
+}
+
+/**
+ * Incremental tar reader: feed it chunks, get entries back
+ *
+ * Member data is skipped unless `keep` asks for it, so archives of any size
+ * can be listed from a stream.
+ *
+ * @example
+ * const reader = new TarReader();
+ * for await (const chunk of stream) reader.push(chunk);
+ * console.log(reader.entries);
+ */
+export class TarReader {
+  readonly entries: TarEntry[] = [];
+  readonly contents = new Map<string, Uint8Array>();
+  private buffer = new Uint8Array(0);
+  private remaining = 0;       // Bytes of member data (including padding) still to consume
+  private collecting?: { target: 'name' | 'pax' | 'member'; size: number; chunks: Uint8Array[]; path?: string };
+  private nextPath?: string;   // Path set by a GNU long name or pax header
+  private ended = false;
+
+  /**
+   * @param keep - Returns true for members whose contents should be kept in `contents`
+   */
+  constructor(private readonly keep: (path: string) => boolean = () => false) {}
+
+  /**
+   * Whether the end-of-archive marker was reached
+   */
+  get done(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * Feed the next chunk of the archive
+   */
+  push(chunk: Uint8Array): void {
+    if (this.ended) {
+      return;
+    }
+
+    let data = this.buffer.length > 0 ? concat(this.buffer, chunk) : chunk;
+
+    while (!this.ended) {
+      if (this.remaining > 0) {
+        const take = Math.min(this.remaining, data.length);
+        if (this.collecting) {
+          this.collecting.chunks.push(data.subarray(0, take));
+        }
+        this.remaining -= take;
+        data = data.subarray(take);
+        if (this.remaining > 0) {
+          break;
+        }
+        this.finishMember();
+        continue;
+      }
+
+      if (data.length < BLOCK_SIZE) {
+        break;
+      }
+
+      const header = parseHeader(data.subarray(0, BLOCK_SIZE));
+      data = data.subarray(BLOCK_SIZE);
+
+      if (!header) {
+        this.ended = true;
+        break;
+      }
+
+      this.startMember(header);
+    }
+
+    this.buffer = data.length > 0 ? data.slice() : new Uint8Array(0);
+  }
+
+  private startMember(header: TarHeader): void {
+    this.remaining = Math.ceil(header.size / BLOCK_SIZE) * BLOCK_SIZE;
+    this.collecting = undefined;
+
+    if (header.typeflag === 'L') {
+      this.collecting = { target: 'name', size: header.size, chunks: [] };
+    } else if (header.typeflag === 'x') {
+      this.collecting = { target: 'pax', size: header.size, chunks: [] };
+    } else if (header.typeflag !== 'g') {
+      const path = this.nextPath || header.name;
+      this.nextPath = undefined;
+      const type = getEntryType(header.typeflag);
+      this.entries.push({ path, size: type === 'file' ? header.size : 0, type });
+      if (type === 'file' && this.keep(path)) {
+        this.collecting = { target: 'member', size: header.size, chunks: [], path };
+      }
+    }
+
+    if (this.remaining === 0) {
+      this.finishMember();
+    }
+  }
+
+  private finishMember(): void {
+    const collecting = this.collecting;
+    this.collecting = undefined;
+    if (!collecting) {
+      return;
+    }
+
+    const data = concat(...collecting.chunks).subarray(0, collecting.size);
+    if (collecting.target === 'name') {
+      this.nextPath = readString(data, 0, data.length);
+    } else if (collecting.target === 'pax') {
+      this.nextPath = getPaxPath(data) || this.nextPath;
+    } else {
+      this.contents.set(collecting.path!, data.slice());
+    }
+  }
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Whether a block looks like a tar header ("ustar" magic)
+ */
+export function isTarHeader(block: Uint8Array): boolean {
+  return block.length >= BLOCK_SIZE && readString(block, 257, 5) === 'ustar';
+}
@@ -0,0 +1,81 @@
+/**
+ * Package Version Comparison
+ *
+ * QNAP versions are dotted build numbers ("2465.83260", "4.1.6", "0.107.24"),
+ * sometimes with a prefix or suffix ("v1.2", "1.2.3-beta2"). Versions are
+ * compared segment by segment:
+ *
+ * - Numeric segments compare as numbers, so "1.10" > "1.9" and "01" = "1"
+ * - Missing trailing segments count as zero, so "1.0" = "1.0.0"
+ * - Text segments compare alphabetically and sort before numbers, so a
+ *   pre-release ("1.2-beta") is older than the release ("1.2.0")
+ * - A leading "v" and the case of text segments are ignored
+ */
+
+/**
+ * How one version relates to an earlier one
+ * - upgrade: newer version
+ * - downgrade: older version (rollback upstream)
+ * - same: equal versions, possibly written differently ("1.0" vs "1.0.0")
+ */
+export type VersionChange = 'upgrade' | 'downgrade' | 'same';
+
+/**
+ * Split a version into numeric and text segments
+ * "v1.2.3-beta2" -> [1, 2, 3, "beta", 2]
+ */
+function parseVersion(version: string): (number | string)[] {
+  const normalized = version.trim().toLowerCase().replace(/^v(?=\d)/, '');
+  return (normalized.match(/\d+|[a-z]+/g) || []).map(segment =>
+    /^\d+$/.test(segment) ? Number(segment) : segment
+  );
+}
+
+/**
+ * Compare two versions
+ *
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b
+ *
+ * @example
+ * compareVersions('2465.83260', '2465.83259') // > 0
+ * compareVersions('1.0', '1.0.0')             // 0
+ * compareVersions('1.2-beta', '1.2')          // < 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    // A missing segment is zero, so a text segment on the other side sorts before it
+    const x = left[i] ?? 0;
+    const y = right[i] ?? 0;
+
+    if (typeof x === 'number' && typeof y === 'number') {
+      if (x !== y) return x - y;
+    } else if (typeof x === 'string' && typeof y === 'string') {
+      if (x !== y) return x < y ? -1 : 1;
+    } else {
+      // Text sorts before numbers
+      return typeof x === 'string' ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Whether two version strings denote the same version
+ */
+export function versionsEqual(a: string, b: string): boolean {
+  return compareVersions(a, b) === 0;
+}
+
+/**
+ * Classify the change from a previous version to a new one
+ */
+export function classifyVersionChange(previous: string, current: string): VersionChange {
+  const result = compareVersions(current, previous);
+  if (result > 0) return 'upgrade';
+  if (result < 0) return 'downgrade';
+  return 'same';
+}
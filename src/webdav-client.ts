@@ -1,4 +1,10 @@
 import { basename } from 'path';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { parseStringPromise, processors } from 'xml2js';
 import { formatBytes } from './utils/format';
 
 export interface WebDAVConfig {
@@ -6,17 +12,64 @@ export interface WebDAVConfig {
   username: string;
   password: string;
   rootPath?: string;
+  chunkedUpload?: boolean;   // Nextcloud/ownCloud chunked upload (v2)
+  chunkSize?: number;        // Chunk size in bytes for chunked upload
 }
 
+/**
+ * Default chunk size for chunked uploads (64 MiB)
+ * Nextcloud accepts 5 MiB - 5 GiB per chunk and at most 10000 chunks
+ */
+const DEFAULT_CHUNK_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Send the body anyway if the server doesn't answer `Expect: 100-continue` in time
+ */
+const EXPECT_CONTINUE_TIMEOUT = 3000;
+
+/**
+ * Abort an upload when the connection has been idle this long (5 minutes)
+ */
+const UPLOAD_STALL_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Properties requested by PROPFIND
+ */
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getcontentlength/>
+    <d:getetag/>
+    <d:getlastmodified/>
+    <d:getcontenttype/>
+  </d:prop>
+</d:propfind>`;
+
 export interface WebDAVUploadResult {
   fileName: string;
   remotePath: string;
   downloadUrl: string;
 }
 
+/**
+ * File or collection from a PROPFIND multistatus response
+ */
+export interface WebDAVEntry {
+  href: string;            // Decoded href as returned by the server
+  path: string;            // Path relative to WEBDAV_ROOT_PATH (e.g., "Apache84/2025-11/file.qpkg")
+  name: string;
+  isCollection: boolean;
+  size?: number;
+  etag?: string;           // Without quotes
+  lastModified?: string;   // ISO 8601
+  contentType?: string;
+}
+
 /**
  * WebDAV Client for uploading files with retry mechanism
- * Uses native fetch API for all WebDAV operations (MKCOL, PUT, etc.)
+ * Uses native fetch for WebDAV operations (MKCOL, PROPFIND, MOVE, ...) and
+ * node:http for streamed PUT uploads; credentials never leave the process
  */
 export class WebDAVClient {
   private config: WebDAVConfig;
@@ -39,6 +92,15 @@ export class WebDAVClient {
     return 'Basic ' + Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
   }
 
+  /**
+   * Prepend rootPath to a remote path if not already included
+   */
+  private getFullPath(remotePath: string): string {
+    return remotePath.startsWith(this.config.rootPath!)
+      ? remotePath
+      : `${this.config.rootPath}${remotePath.startsWith('/') ? remotePath : '/' + remotePath}`;
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -51,10 +113,7 @@ export class WebDAVClient {
    * Uses native WebDAV MKCOL method
    */
   async ensureDirectory(remotePath: string): Promise<void> {
-    // Prepend rootPath if not already included
-    const fullPath = remotePath.startsWith(this.config.rootPath!)
-      ? remotePath
-      : `${this.config.rootPath}${remotePath.startsWith('/') ? remotePath : '/' + remotePath}`;
+    const fullPath = this.getFullPath(remotePath);
 
     // Split path into components and create each level
     const pathParts = fullPath.split('/').filter(p => p);
@@ -90,68 +149,244 @@ export class WebDAVClient {
   }
 
   /**
-   * Upload file using curl command (more stable for large files)
-   * Optimized with HTTP/2, TCP tuning, and intelligent retry logic
+   * Send a PUT request with a file (or a byte range of it) as a streamed body
+   *
+   * Uses node:http instead of fetch for `Expect: 100-continue`: the server can
+   * reject the request (auth, quota, size) before any data is sent. Servers that
+   * don't answer the expectation get the body after EXPECT_CONTINUE_TIMEOUT.
    */
-  private async uploadWithCurl(
+  private sendFile(
+    url: string,
     localPath: string,
-    uploadUrl: string,
-    fileSize: number
-  ): Promise<void> {
-    const fileName = basename(localPath);
-    console.log(`  ⬆️  Uploading with curl (optimized mode)...`);
+    range: { start: number; end: number },
+    headers: Record<string, string>,
+    onProgress: (bytesSent: number) => void
+  ): Promise<{ status: number; statusText: string; body: string }> {
+    return new Promise((resolve, reject) => {
+      const target = new URL(url);
+      const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+      const length = range.end - range.start;
+
+      const req = send(target, {
+        method: 'PUT',
+        headers: {
+          'Authorization': this.getAuthHeader(),
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': length.toString(),
+          'Expect': '100-continue',
+          ...headers,
+        },
+      });
+
+      let stream: ReturnType<typeof createReadStream> | null = null;
+
+      const startBody = () => {
+        if (stream) return;
+
+        if (length === 0) {
+          req.end();
+          return;
+        }
+
+        // createReadStream's end is inclusive
+        stream = createReadStream(localPath, { start: range.start, end: range.end - 1 });
+        let sent = 0;
+        stream.on('data', chunk => {
+          sent += chunk.length;
+          onProgress(sent);
+        });
+        stream.on('error', error => req.destroy(error));
+        stream.pipe(req);
+      };
+
+      const continueTimer = setTimeout(startBody, EXPECT_CONTINUE_TIMEOUT);
+      req.on('continue', () => {
+        clearTimeout(continueTimer);
+        startBody();
+      });
+
+      req.on('response', response => {
+        clearTimeout(continueTimer);
+        stream?.unpipe(req);
+        stream?.destroy();
+
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (body.length < 2000) body += chunk;
+        });
+        response.on('end', () => resolve({
+          status: response.statusCode || 0,
+          statusText: response.statusMessage || '',
+          body,
+        }));
+        response.on('error', reject);
+      });
+
+      req.setTimeout(UPLOAD_STALL_TIMEOUT, () => {
+        req.destroy(new Error(`Upload stalled: no progress for ${UPLOAD_STALL_TIMEOUT / 1000}s`));
+      });
+      req.on('error', error => {
+        clearTimeout(continueTimer);
+        stream?.destroy();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Create a progress logger that prints at most every 5 seconds
+   */
+  private createProgressLogger(totalBytes: number): (bytesSent: number) => void {
     const startTime = Date.now();
+    let lastLogTime = startTime;
 
-    try {
-      // Use Bun's shell command execution
-      // Performance optimizations:
-      // --http2: Use HTTP/2 protocol for better multiplexing and performance
-      // --tcp-nodelay: Disable Nagle's algorithm for faster small packet transmission
-      // --no-buffer: Disable output buffering for real-time progress updates
-      // --keepalive-time: Send keepalive probes every 60 seconds to maintain connection
-      // --speed-limit/--speed-time: Abort if speed drops below 1KB/s for 30 seconds
-      // --compressed: Request compressed transfer encoding (may help with metadata)
-      // --retry-all-errors: Retry on all errors, not just transient network issues
-      // --ssl-no-revoke: Skip SSL certificate revocation check for faster handshake
-      // --max-time: Dynamic timeout based on file size (1 hour per GB, min 1 hour)
-      const timeoutSeconds = Math.max(3600, Math.ceil(fileSize / (1024 * 1024 * 1024)) * 3600);
-
-      const result = await Bun.$`curl -T ${localPath} \
-        -u ${this.config.username}:${this.config.password} \
-        ${uploadUrl} \
-        --http2 \
-        --tcp-nodelay \
-        --no-buffer \
-        --keepalive-time 60 \
-        --speed-limit 1024 \
-        --speed-time 30 \
-        --compressed \
-        --progress-bar \
-        --fail \
-        --retry 5 \
-        --retry-delay 3 \
-        --retry-max-time 300 \
-        --retry-all-errors \
-        --connect-timeout 30 \
-        --max-time ${timeoutSeconds} \
-        --ssl-no-revoke`;
-
-      if (result.exitCode !== 0) {
-        throw new Error(`curl upload failed with exit code ${result.exitCode}`);
+    return (bytesSent: number) => {
+      const now = Date.now();
+      if (now - lastLogTime < 5000 && bytesSent < totalBytes) return;
+      lastLogTime = now;
+
+      const percentage = totalBytes > 0 ? ((bytesSent / totalBytes) * 100).toFixed(1) : '100.0';
+      const speed = now > startTime ? (bytesSent / (now - startTime)) * 1000 : 0;
+      console.log(`  ⬆️  ${percentage}% (${formatBytes(bytesSent)}/${formatBytes(totalBytes)}) ${formatBytes(speed)}/s`);
+    };
+  }
+
+  /**
+   * Upload a whole file with a single streamed PUT
+   */
+  private async uploadStream(localPath: string, uploadUrl: string, fileSize: number): Promise<void> {
+    const response = await this.sendFile(
+      uploadUrl,
+      localPath,
+      { start: 0, end: fileSize },
+      {},
+      this.createProgressLogger(fileSize)
+    );
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`WebDAV upload failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Get the Nextcloud/ownCloud uploads collection for chunked uploads
+   * Derived from a WEBDAV_URL of the form https://host/remote.php/dav/files/<user>
+   */
+  private getChunkUploadsUrl(): string {
+    const match = this.config.serverUrl.match(/^(.*\/remote\.php\/dav)\/files\/([^/]+)\/?$/);
+    if (!match) {
+      throw new Error(
+        'Chunked upload requires WEBDAV_URL in the form https://host/remote.php/dav/files/<user>'
+      );
+    }
+    return `${match[1]}/uploads/${match[2]}`;
+  }
+
+  /**
+   * Sizes of the chunks already stored in an upload collection
+   * @returns Map of chunk name to size, or null if the collection doesn't exist
+   */
+  private async getUploadedChunks(uploadDirUrl: string): Promise<Map<string, number> | null> {
+    const entries = await this.propfind(uploadDirUrl, '1');
+    if (!entries) {
+      return null;
+    }
+
+    const chunks = new Map<string, number>();
+    for (const entry of entries) {
+      if (!entry.isCollection && /^\d+$/.test(entry.name) && entry.size !== undefined) {
+        chunks.set(entry.name, entry.size);
       }
+    }
+    return chunks;
+  }
 
-      const elapsed = Date.now() - startTime;
-      const speed = (fileSize / elapsed) * 1000;
+  /**
+   * Upload a file with the Nextcloud/ownCloud chunked upload protocol (v2)
+   *
+   * Chunks go to uploads/<user>/<transfer-id>/<n> and are assembled with a
+   * MOVE of the .file pseudo-file. The transfer ID is derived from the
+   * destination, size and mtime of the file, so a later attempt (or run) finds
+   * the same collection and only sends the chunks that are missing.
+   */
+  private async uploadChunked(localPath: string, fullRemotePath: string, fileSize: number): Promise<void> {
+    const chunkSize = this.config.chunkSize || DEFAULT_CHUNK_SIZE;
+    const destination = `${this.config.serverUrl}${fullRemotePath}`;
+    const mtime = (await stat(localPath)).mtimeMs;
+    const transferId = `qnap-sync-${createHash('sha1').update(`${destination}:${fileSize}:${mtime}`).digest('hex')}`;
+    const uploadDirUrl = `${this.getChunkUploadsUrl()}/${transferId}`;
+    const chunkCount = Math.ceil(fileSize / chunkSize);
+    const chunkHeaders = {
+      'Destination': destination,
+      'OC-Total-Length': fileSize.toString(),
+    };
 
-      console.log(`  ✓ Upload completed`);
-      console.log(`  ⏱️  Time: ${(elapsed / 1000).toFixed(2)}s (${formatBytes(speed)}/s)`);
-    } catch (error) {
-      throw new Error(`curl upload failed: ${error instanceof Error ? error.message : String(error)}`);
+    console.log(`  ⬆️  Chunked upload: ${chunkCount} chunk(s) of ${formatBytes(chunkSize)}`);
+
+    let uploaded = await this.getUploadedChunks(uploadDirUrl);
+    if (!uploaded) {
+      const response = await fetch(uploadDirUrl, {
+        method: 'MKCOL',
+        headers: {
+          'Authorization': this.getAuthHeader(),
+          'Destination': destination,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to start chunked upload: ${response.status} ${response.statusText}`);
+      }
+      uploaded = new Map();
+    } else if (uploaded.size > 0) {
+      console.log(`  ♻️  Resuming: ${uploaded.size}/${chunkCount} chunk(s) already on the server`);
+    }
+
+    const logProgress = this.createProgressLogger(fileSize);
+
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * chunkSize;
+      const end = Math.min(start + chunkSize, fileSize);
+      // Chunk names must be numbers from 1 to 10000
+      const chunkName = String(index + 1).padStart(5, '0');
+
+      if (uploaded.get(chunkName) === end - start) {
+        logProgress(end);
+        continue;
+      }
+
+      const response = await this.sendFile(
+        `${uploadDirUrl}/${chunkName}`,
+        localPath,
+        { start, end },
+        chunkHeaders,
+        sent => logProgress(start + sent)
+      );
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Chunk ${index + 1}/${chunkCount} failed: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    // Assemble the chunks into the destination file
+    console.log(`  🧩 Assembling ${chunkCount} chunk(s)...`);
+    const response = await fetch(`${uploadDirUrl}/.file`, {
+      method: 'MOVE',
+      headers: {
+        'Authorization': this.getAuthHeader(),
+        ...chunkHeaders,
+        'Overwrite': 'T',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to assemble chunks: ${response.status} ${response.statusText}`);
     }
   }
 
   /**
    * Upload file to WebDAV server with retry mechanism using streaming
+   * Files larger than one chunk use the Nextcloud chunked protocol when
+   * WEBDAV_CHUNKED_UPLOAD is enabled, so retries resume instead of restarting
    */
   async uploadFile(
     localPath: string,
@@ -163,9 +398,7 @@ export class WebDAVClient {
     const fileSize = file.size;
 
     // Prepend rootPath to remote path if not already included
-    const fullRemotePath = remotePath.startsWith(this.config.rootPath!)
-      ? remotePath
-      : `${this.config.rootPath}${remotePath.startsWith('/') ? remotePath : '/' + remotePath}`;
+    const fullRemotePath = this.getFullPath(remotePath);
 
     console.log(`\n📤 WebDAV Upload: ${fileName}`);
     console.log(`  Size: ${formatBytes(fileSize)}`);
@@ -179,8 +412,7 @@ export class WebDAVClient {
     // Construct full WebDAV URL
     const uploadUrl = `${this.config.serverUrl}${fullRemotePath}`;
 
-    // For large files (>500MB), use curl which is more stable
-    const useCurl = fileSize > 500 * 1024 * 1024;
+    const chunked = !!this.config.chunkedUpload && fileSize > (this.config.chunkSize || DEFAULT_CHUNK_SIZE);
 
     let lastError: Error | null = null;
 
@@ -191,51 +423,21 @@ export class WebDAVClient {
           await this.sleep(this.retryDelay * attempt);
         }
 
-        if (useCurl) {
-          // Use curl for large files
-          await this.uploadWithCurl(localPath, uploadUrl, fileSize);
+        const startTime = Date.now();
+
+        if (chunked) {
+          await this.uploadChunked(localPath, fullRemotePath, fileSize);
         } else {
-          // Use fetch for smaller files
           console.log(`  ⬆️  Uploading...`);
-          const startTime = Date.now();
-
-          // For large files (>500MB), use longer timeout
-          const timeoutMs = fileSize > 500 * 1024 * 1024 ? 7200000 : 3600000; // 2 hours for large files, 1 hour otherwise
-
-          // Create an AbortController for timeout
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-          try {
-            // Use native fetch with streaming body (Bun.file supports streaming)
-            const response = await fetch(uploadUrl, {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/octet-stream',
-                'Content-Length': fileSize.toString(),
-                'Authorization': this.getAuthHeader(),
-              },
-              body: file,
-              signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-              throw new Error(`WebDAV upload failed: ${response.status} ${response.statusText}`);
-            }
-
-            const elapsed = Date.now() - startTime;
-            const speed = (fileSize / elapsed) * 1000;
-
-            console.log(`  ✓ WebDAV upload succeeded on attempt ${attempt}`);
-            console.log(`  ⏱️  Time: ${(elapsed / 1000).toFixed(2)}s (${formatBytes(speed)}/s)`);
-          } catch (fetchError) {
-            clearTimeout(timeoutId);
-            throw fetchError;
-          }
+          await this.uploadStream(localPath, uploadUrl, fileSize);
         }
 
+        const elapsed = Date.now() - startTime;
+        const speed = elapsed > 0 ? (fileSize / elapsed) * 1000 : 0;
+
+        console.log(`  ✓ WebDAV upload succeeded on attempt ${attempt}`);
+        console.log(`  ⏱️  Time: ${(elapsed / 1000).toFixed(2)}s (${formatBytes(speed)}/s)`);
+
         // Construct download URL
         const downloadUrl = uploadUrl;
 
@@ -264,10 +466,7 @@ export class WebDAVClient {
    */
   async fileExists(remotePath: string): Promise<boolean> {
     try {
-      // Prepend rootPath if not already included
-      const fullPath = remotePath.startsWith(this.config.rootPath!)
-        ? remotePath
-        : `${this.config.rootPath}${remotePath.startsWith('/') ? remotePath : '/' + remotePath}`;
+      const fullPath = this.getFullPath(remotePath);
 
       const fileUrl = `${this.config.serverUrl}${fullPath}`;
       const response = await fetch(fileUrl, {
@@ -283,27 +482,215 @@ export class WebDAVClient {
   }
 
   /**
-   * Get file info from WebDAV server using PROPFIND
+   * Get the full URL of a file on the WebDAV server
    */
-  async getFileInfo(remotePath: string): Promise<any> {
-    // Prepend rootPath if not already included
-    const fullPath = remotePath.startsWith(this.config.rootPath!)
-      ? remotePath
-      : `${this.config.rootPath}${remotePath.startsWith('/') ? remotePath : '/' + remotePath}`;
+  getFileUrl(remotePath: string): string {
+    const fullPath = this.getFullPath(remotePath);
+
+    return `${this.config.serverUrl}${fullPath}`;
+  }
 
-    const fileUrl = `${this.config.serverUrl}${fullPath}`;
+  /**
+   * Delete a file from the WebDAV server
+   * A missing file (404) is treated as already deleted
+   */
+  async deleteFile(remotePath: string): Promise<void> {
+    const fileUrl = this.getFileUrl(remotePath);
     const response = await fetch(fileUrl, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete file: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Delete a directory (and everything in it) from the WebDAV server
+   * A missing directory (404) is treated as already deleted
+   */
+  async deleteDirectory(remotePath: string): Promise<void> {
+    const dirUrl = this.getFileUrl(remotePath).replace(/\/*$/, '/');
+    if (dirUrl === this.getFileUrl('/').replace(/\/*$/, '/')) {
+      throw new Error('Refusing to delete the root directory');
+    }
+
+    const response = await fetch(dirUrl, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete directory: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Read bytes [start, end) of a file with a Range request
+   * @throws Error if the server ignores the Range header (to avoid downloading the whole file)
+   */
+  async readRange(remotePath: string, start: number, end: number): Promise<Uint8Array> {
+    const response = await fetch(this.getFileUrl(remotePath), {
+      headers: {
+        'Authorization': this.getAuthHeader(),
+        'Range': `bytes=${start}-${end - 1}`,
+      },
+    });
+
+    if (response.status !== 206) {
+      await response.body?.cancel();
+      throw new Error(response.ok
+        ? 'Server does not support range requests'
+        : `Failed to read file: ${response.status} ${response.statusText}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Send a PROPFIND request and parse the multistatus response
+   * @returns Entries (the target itself first), or null if it doesn't exist
+   */
+  private async propfind(url: string, depth: '0' | '1'): Promise<WebDAVEntry[] | null> {
+    const response = await fetch(url, {
       method: 'PROPFIND',
       headers: {
         'Authorization': this.getAuthHeader(),
-        'Depth': '0',
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Depth': depth,
       },
+      body: PROPFIND_BODY,
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to get file info: ${response.status} ${response.statusText}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status !== 207 && !response.ok) {
+      throw new Error(`PROPFIND failed: ${response.status} ${response.statusText}`);
+    }
+
+    const serverPath = decodeURIComponent(new URL(this.config.serverUrl).pathname).replace(/\/+$/, '');
+    const rootPath = `${serverPath}${this.config.rootPath}`.replace(/\/+$/, '');
+
+    return await parseMultistatus(await response.text(), href => {
+      const path = decodeURIComponent(new URL(href, url).pathname).replace(/\/+$/, '');
+      return path.startsWith(`${rootPath}/`) ? path.substring(rootPath.length + 1) : path.replace(/^\//, '');
+    });
+  }
+
+  /**
+   * Get file or directory properties using PROPFIND (Depth: 0)
+   * @returns Entry, or null if it doesn't exist
+   */
+  async getFileInfo(remotePath: string): Promise<WebDAVEntry | null> {
+    const entries = await this.propfind(this.getFileUrl(remotePath), '0');
+    return entries?.[0] || null;
+  }
+
+  /**
+   * List the direct children of a directory using PROPFIND (Depth: 1)
+   * @returns Entries without the directory itself, or null if it doesn't exist
+   */
+  async listDirectory(remotePath: string): Promise<WebDAVEntry[] | null> {
+    const dirUrl = this.getFileUrl(remotePath).replace(/\/*$/, '/');
+    const entries = await this.propfind(dirUrl, '1');
+    if (!entries) {
+      return null;
+    }
+
+    const dirPath = entries[0]?.path;
+    return entries.filter((entry, index) => index > 0 && entry.path !== dirPath);
+  }
+
+  /**
+   * Walk a directory tree, yielding every file and directory below it
+   *
+   * Uses one Depth: 1 request per directory, since many servers (Nextcloud,
+   * nginx, Apache with DavDepthInfinity off) reject Depth: infinity.
+   */
+  async *walk(remotePath: string): AsyncGenerator<WebDAVEntry> {
+    const pending = [remotePath];
+
+    while (pending.length > 0) {
+      const entries = await this.listDirectory(pending.shift()!);
+
+      for (const entry of entries || []) {
+        yield entry;
+        if (entry.isCollection) {
+          pending.push(`/${entry.path}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * List all files below a directory, recursively
+   */
+  async listRecursive(remotePath: string): Promise<WebDAVEntry[]> {
+    const files: WebDAVEntry[] = [];
+    for await (const entry of this.walk(remotePath)) {
+      if (!entry.isCollection) {
+        files.push(entry);
+      }
     }
+    return files;
+  }
+}
 
-    return await response.text();
+/**
+ * Parse a PROPFIND multistatus response into typed entries
+ *
+ * @param xml - Response body
+ * @param toPath - Convert an href to a path relative to the WebDAV root
+ */
+async function parseMultistatus(xml: string, toPath: (href: string) => string): Promise<WebDAVEntry[]> {
+  const parsed = await parseStringPromise(xml, {
+    explicitArray: false,
+    tagNameProcessors: [processors.stripPrefix],
+  });
+
+  const toArray = (value: any): any[] => Array.isArray(value) ? value : value ? [value] : [];
+  const text = (value: any): string | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const result = typeof value === 'object' ? value._ : String(value);
+    return result ? String(result).trim() : undefined;
+  };
+
+  const entries: WebDAVEntry[] = [];
+
+  for (const response of toArray(parsed?.multistatus?.response)) {
+    const href = text(response.href);
+    if (!href) continue;
+
+    // Only use properties the server returned with a 2xx status
+    const prop: any = {};
+    for (const propstat of toArray(response.propstat)) {
+      const status = text(propstat.status) || '';
+      if (status && !/\s2\d\d\s/.test(`${status} `)) continue;
+      Object.assign(prop, typeof propstat.prop === 'object' ? propstat.prop : {});
+    }
+
+    const path = toPath(href);
+    const size = text(prop.getcontentlength);
+    const lastModified = text(prop.getlastmodified);
+    const resourceType = prop.resourcetype;
+
+    entries.push({
+      href: decodeURIComponent(href),
+      path,
+      name: path.split('/').pop() || '',
+      isCollection: typeof resourceType === 'object' && resourceType !== null && 'collection' in resourceType,
+      size: size !== undefined ? Number(size) : undefined,
+      etag: text(prop.getetag)?.replace(/^W\//, '').replace(/"/g, ''),
+      lastModified: lastModified ? new Date(lastModified).toISOString() : undefined,
+      contentType: text(prop.getcontenttype),
+    });
   }
+
+  return entries;
 }
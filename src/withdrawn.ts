@@ -0,0 +1,120 @@
+/**
+ * Withdrawn Packages
+ *
+ * Packages QNAP no longer lists (app-removed, platform-removed) disappear from
+ * apps.json. With TRACK_WITHDRAWN=true they are recorded in
+ * config/withdrawn.json, so the catalog and portal can mark mirrored copies
+ * as withdrawn instead of losing track of them. A package that is listed
+ * again is removed from the record.
+ */
+
+import { join } from 'path';
+import { getEnvOrDefault } from './env';
+import { getFilenameFromUrl } from './utils/file';
+import type { AppChange } from './apps-diff';
+import type { AppsConfig } from './types';
+
+export const WITHDRAWN_FILE = join(process.cwd(), 'config', 'withdrawn.json');
+
+/**
+ * A package file that was removed from the feed
+ */
+export interface WithdrawnEntry {
+  filename: string;
+  productName: string;
+  app: string;              // internalName, or name if the feed has none
+  version: string;
+  platformID: string;
+  location: string;
+  signature: string;
+  reason: 'app-removed' | 'platform-removed';
+  withdrawnAt: string;
+}
+
+/**
+ * Withdrawn catalog file structure (config/withdrawn.json)
+ */
+export interface WithdrawnCatalog {
+  updatedAt: string;
+  entries: WithdrawnEntry[];
+}
+
+/**
+ * Whether withdrawn packages are tracked (TRACK_WITHDRAWN, default: false)
+ */
+export function isWithdrawnTrackingEnabled(): boolean {
+  return getEnvOrDefault('TRACK_WITHDRAWN', 'false') === 'true';
+}
+
+/**
+ * Load config/withdrawn.json, or start an empty one
+ */
+export async function loadWithdrawnCatalog(filePath: string = WITHDRAWN_FILE): Promise<WithdrawnCatalog> {
+  const file = Bun.file(filePath);
+  if (await file.exists()) {
+    try {
+      return await file.json();
+    } catch (error) {
+      console.warn(`  ⚠ Failed to load withdrawn packages, starting a new list: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return { updatedAt: new Date().toISOString(), entries: [] };
+}
+
+/**
+ * Record the removals of a fetch and forget packages that are listed again
+ *
+ * @returns Number of entries added and restored
+ */
+export function updateWithdrawnCatalog(
+  catalog: WithdrawnCatalog,
+  changes: AppChange[],
+  config: AppsConfig,
+  now: Date = new Date()
+): { added: number; restored: number } {
+  const listed = new Set(config.plugins.item.flatMap(app => app.platform.map(p => getFilenameFromUrl(p.location))));
+  const entries = new Map(catalog.entries.map(e => [e.filename, e]));
+  let added = 0;
+  let restored = 0;
+
+  for (const filename of [...entries.keys()]) {
+    if (listed.has(filename)) {
+      entries.delete(filename);
+      restored++;
+    }
+  }
+
+  for (const change of changes) {
+    if (change.type !== 'app-removed' && change.type !== 'platform-removed') {
+      continue;
+    }
+    for (const platform of change.platforms) {
+      if (entries.has(platform.filename) || listed.has(platform.filename)) {
+        continue;
+      }
+      entries.set(platform.filename, {
+        filename: platform.filename,
+        productName: change.name,
+        app: change.app,
+        version: change.version,
+        platformID: platform.platformID,
+        location: platform.location,
+        signature: platform.signature,
+        reason: change.type,
+        withdrawnAt: now.toISOString(),
+      });
+      added++;
+    }
+  }
+
+  catalog.entries = [...entries.values()].sort((a, b) => a.filename.localeCompare(b.filename));
+  catalog.updatedAt = now.toISOString();
+  return { added, restored };
+}
+
+/**
+ * Withdrawal dates by filename
+ */
+export function getWithdrawnDates(catalog: WithdrawnCatalog | undefined): Map<string, string> {
+  return new Map((catalog?.entries || []).map(e => [e.filename, e.withdrawnAt]));
+}